@@ -8,6 +8,9 @@ import AllPagesPage from './pages/AllPagesPage';
 import SettingsPage from './pages/SettingsPage';
 import MainLayout from './components/layout/MainLayout';
 import SecretPage from './pages/SecretPage';
+import TrashPage from './pages/TrashPage';
+import JournalPage from './pages/JournalPage';
+import GraphPage from './pages/GraphPage';
 import { Toaster } from 'react-hot-toast';
 
 function App() {
@@ -24,6 +27,10 @@ function App() {
             <Route path="pages" element={<AllPagesPage />} />
             <Route path="settings" element={<SettingsPage />} />
             <Route path="secret" element={<SecretPage />} />
+            <Route path="trash" element={<TrashPage />} />
+            <Route path="journal" element={<JournalPage />} />
+            <Route path="journal/:date" element={<JournalPage />} />
+            <Route path="graph" element={<GraphPage />} />
           </Route>
 
           <Route path="*" element={<Navigate to="/" replace />} />
@@ -11,11 +11,29 @@ import ColorPicker from 'editorjs-color-picker';
 import DragDrop from 'editorjs-drag-drop';
 import ToggleBlock from 'editorjs-toggle-block';
 import Undo from 'editorjs-undo';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import toast from 'react-hot-toast';
+import { useNavigate } from 'react-router-dom';
 import PageLink from '../pages/PageLink';
+import PageMentionPicker from './PageMentionPicker';
+import PageMentionTool, {
+  PageMentionRequest,
+  watchPageMentions,
+} from './pageMentionTool';
+import SlashCommandMenu from './SlashCommandMenu';
+import {
+  matchesShortcut,
+  SlashCommand,
+  slashCommands,
+  SlashMenuRequest,
+  watchSlashCommands,
+} from './slashCommands';
 
 type BlockEditorProps = {
   data: any;
+  // The page being edited, which its links to other pages refer back to
+  pageId?: string;
   readOnly?: boolean;
   onChange?: (data: any) => void;
   autoSave?: boolean;
@@ -24,6 +42,7 @@ type BlockEditorProps = {
 
 const BlockEditor: React.FC<BlockEditorProps> = ({
   data,
+  pageId,
   readOnly = false,
   onChange,
   autoSave = false,
@@ -36,6 +55,10 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
   const [editorKey, setEditorKey] = useState<number>(0);
   const changeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const [isMobile, setIsMobile] = useState<boolean>(false);
+  const [mention, setMention] = useState<PageMentionRequest | null>(null);
+  const [slash, setSlash] = useState<SlashMenuRequest | null>(null);
+  const [linkHosts, setLinkHosts] = useState<{ host: HTMLElement; targetId: string }[]>([]);
+  const navigate = useNavigate();
 
   // Detect mobile on mount
   useEffect(() => {
@@ -51,26 +74,102 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
     return () => window.removeEventListener('resize', checkIfMobile);
   }, []);
 
-  // Custom link parser for internal page links
-  const customLinkParser = (url: string) => {
-    const pageIdMatch = url.match(/\/page\/([a-f0-9-]+)/i);
-    if (pageIdMatch) {
-      return {
-        type: 'page',
-        pageId: pageIdMatch[1],
-      };
-    }
-    return null;
-  };
+  // In read-only mode links to other pages render through PageLink, which
+  // shows the page's current title
+  const hydratePageLinks = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const links = container.querySelectorAll<HTMLAnchorElement>('a[href^="/page/"]');
+    const hosts = Array.from(links).flatMap((link) => {
+      const targetId = link.getAttribute('href')?.match(/^\/page\/([a-f0-9-]{36})/i)?.[1];
+      if (!targetId) return [];
+      const host = document.createElement('span');
+      link.replaceWith(host);
+      return [{ host, targetId }];
+    });
+    setLinkHosts(hosts);
+  }, []);
 
-  // Custom link renderer
-  const renderLink = (data: any) => {
-    if (data.type === 'page') {
-      return <PageLink pageId={data.pageId} />;
-    }
-    return null;
+  // While editing, links to other pages open with Ctrl/Cmd+click
+  const handleLinkClick = (event: React.MouseEvent) => {
+    const link = (event.target as HTMLElement).closest('a[href^="/page/"]');
+    if (!link || !(event.metaKey || event.ctrlKey)) return;
+    event.preventDefault();
+    navigate(link.getAttribute('href')!);
   };
 
+  const closeMention = useCallback(() => setMention(null), []);
+
+  // Typing @ or [[ opens the page picker
+  useEffect(() => {
+    if (readOnly || !containerRef.current) return;
+    return watchPageMentions(containerRef.current, setMention);
+  }, [readOnly, editorKey]);
+
+  // Sub-pages can only be made from a page
+  const commands = useMemo(
+    () => slashCommands.filter((command) => pageId || !command.needsPage),
+    [pageId]
+  );
+
+  const runCommand = useCallback(
+    async (command: SlashCommand, range: Range) => {
+      if (!editorRef.current) return;
+      try {
+        await command.run({
+          editor: editorRef.current,
+          range,
+          pageId,
+          openPagePicker: setMention,
+        });
+      } catch (error) {
+        console.error('Error running editor command:', error);
+        toast.error(`Failed to run "${command.title}"`);
+      }
+    },
+    [pageId]
+  );
+
+  const closeSlash = useCallback(() => setSlash(null), []);
+
+  // The typed `/command` is removed before the command runs in its place
+  const runSlashCommand = useCallback(
+    (command: SlashCommand) => {
+      if (!slash) return;
+      const { range } = slash;
+      range.deleteContents();
+      range.collapse(true);
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      runCommand(command, range);
+    },
+    [slash, runCommand]
+  );
+
+  // Typing / in a paragraph opens the command menu
+  useEffect(() => {
+    if (readOnly || !containerRef.current) return;
+    return watchSlashCommands(containerRef.current, setSlash);
+  }, [readOnly, editorKey]);
+
+  // Each command's shortcut runs it at the caret
+  useEffect(() => {
+    const container = containerRef.current;
+    if (readOnly || !container) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const command = commands.find((c) => matchesShortcut(event, c.shortcut));
+      const selection = window.getSelection();
+      if (!command || !selection?.rangeCount) return;
+      event.preventDefault();
+      event.stopPropagation();
+      runCommand(command, selection.getRangeAt(0));
+    };
+
+    container.addEventListener('keydown', handleKeyDown);
+    return () => container.removeEventListener('keydown', handleKeyDown);
+  }, [readOnly, editorKey, commands, runCommand]);
 
   useEffect(() => {
     dataRef.current = data; // Keep dataRef updated if data prop changes from parent
@@ -214,21 +313,28 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
           config: {
             defaultType: 'quotationMark',
           },
-          shortcut: 'CMD+SHIFT+O',
         },
         toggle: {
           class: ToggleBlock,
           inlineToolbar: true,
         },
+        pageMention: {
+          class: PageMentionTool,
+          config: {
+            openPicker: setMention,
+          },
+        },
       },
       data: validData,
       readOnly,
-      onChange: isTodo ? onChange : handleChange,
+      // Read-only content changes only as page links are rendered
+      onChange: readOnly ? undefined : isTodo ? onChange : handleChange,
       logLevel: "ERROR" as LogLevels.ERROR,
       onReady: () => {
         new Undo({ editor });
         new DragDrop(editor);
         editorRef.current = editor;
+        if (readOnly) hydratePageLinks();
 
         // Mobile-specific adjustments
         if (isMobile) {
@@ -280,7 +386,7 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
         initializedRef.current = false;
       }
     };
-  }, [data, readOnly, handleChange, editorKey, autoSave, isMobile]);
+  }, [data, readOnly, handleChange, editorKey, autoSave, isMobile, hydratePageLinks]);
 
   // Handle external data changes
   useEffect(() => {
@@ -299,7 +405,10 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
 
         editorRef.current.isReady
           .then(() => {
-            editorRef.current?.render(validData);
+            return editorRef.current?.render(validData);
+          })
+          .then(() => {
+            if (readOnly) hydratePageLinks();
           })
           .catch(console.error);
       } catch (error) {
@@ -307,7 +416,7 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
         setEditorKey((prev) => prev + 1);
       }
     }
-  }, [data]);
+  }, [data, readOnly, hydratePageLinks]);
 
   // Handle readOnly changes
   useEffect(() => {
@@ -316,7 +425,7 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
   }, [readOnly]);
 
   return (
-    <div className="relative editorjs-container">
+    <div className="relative editorjs-container" onClick={handleLinkClick}>
       <div
         ref={containerRef}
         key={editorKey}
@@ -325,6 +434,22 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
           paddingBottom: isMobile ? '60px' : '0',
         }}
       />
+      {linkHosts.map(({ host, targetId }, index) =>
+        createPortal(
+          <PageLink pageId={targetId} sourcePageId={pageId} />,
+          host,
+          `${targetId}-${index}`
+        )
+      )}
+      {mention && <PageMentionPicker request={mention} onClose={closeMention} />}
+      {slash && (
+        <SlashCommandMenu
+          request={slash}
+          commands={commands}
+          onRun={runSlashCommand}
+          onClose={closeSlash}
+        />
+      )}
     </div>
   );
 };
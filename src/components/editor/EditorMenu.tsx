@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+type EditorMenuProps<T> = {
+  // Where the text that opened the menu is, in viewport coordinates
+  rect: DOMRect;
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  onSelect: (item: T) => void;
+  onClose: () => void;
+  header?: React.ReactNode;
+  emptyText: string;
+};
+
+// A list opened from the editor's text, like the page picker and the slash
+// commands. The caret stays in the editor while typing narrows the list, so
+// keys are caught before the editor sees them.
+function EditorMenu<T>({
+  rect,
+  items,
+  getKey,
+  renderItem,
+  onSelect,
+  onClose,
+  header,
+  emptyText,
+}: EditorMenuProps<T>) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items]);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      } else if (event.key === 'ArrowDown' && items.length) {
+        setActiveIndex((index) => (index + 1) % items.length);
+      } else if (event.key === 'ArrowUp' && items.length) {
+        setActiveIndex((index) => (index - 1 + items.length) % items.length);
+      } else if (event.key === 'Enter' && items[activeIndex]) {
+        onSelect(items[activeIndex]);
+        onClose();
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true);
+      document.removeEventListener('mousedown', handleMouseDown);
+    };
+  }, [items, activeIndex, onSelect, onClose]);
+
+  // Below the text, kept inside the window
+  const style = {
+    top: Math.min(rect.bottom + 4, window.innerHeight - 320),
+    left: Math.max(8, Math.min(rect.left, window.innerWidth - 296)),
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 w-72 max-h-80 overflow-y-auto bg-white rounded-lg border border-slate-200 shadow-lg p-1"
+      style={style}
+    >
+      {header}
+      {items.length === 0 ? (
+        <p className="text-sm text-slate-500 px-3 py-2">{emptyText}</p>
+      ) : (
+        items.map((item, index) => (
+          <button
+            key={getKey(item)}
+            ref={index === activeIndex ? activeRef : undefined}
+            // Keeps the caret in the editor
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => {
+              onSelect(item);
+              onClose();
+            }}
+            className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm rounded-md text-left ${
+              index === activeIndex ? 'bg-slate-100' : ''
+            }`}
+          >
+            {renderItem(item)}
+          </button>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default EditorMenu;
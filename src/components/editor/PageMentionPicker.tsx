@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { usePageStore } from '../../store/pageStore';
+import { fuzzyMatch } from '../../lib/utils';
+import Input from '../ui/Input';
+import PageIcon from '../pages/PageIcon';
+import EditorMenu from './EditorMenu';
+import { PageMentionRequest } from './pageMentionTool';
+
+type PageMentionPickerProps = {
+  request: PageMentionRequest;
+  onClose: () => void;
+};
+
+const MAX_RESULTS = 8;
+
+const PageMentionPicker: React.FC<PageMentionPickerProps> = ({
+  request,
+  onClose,
+}) => {
+  const { pages } = usePageStore();
+  const [search, setSearch] = useState(request.query);
+
+  const query = request.searchable ? search : request.query;
+
+  // Best matches first, most recently edited pages when nothing is typed
+  const results = useMemo(
+    () =>
+      pages
+        .map((page) => ({ page, score: fuzzyMatch(query, page.title) }))
+        .filter(
+          (result): result is { page: typeof result.page; score: number } =>
+            result.score !== null
+        )
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            b.page.updated_at.localeCompare(a.page.updated_at)
+        )
+        .slice(0, MAX_RESULTS)
+        .map((result) => result.page),
+    [pages, query]
+  );
+
+  return (
+    <EditorMenu
+      rect={request.rect}
+      items={results}
+      getKey={(page) => page.id}
+      renderItem={(page) => (
+        <>
+          <PageIcon type={page.type} size={14} />
+          <span className="truncate">{page.title || 'Untitled'}</span>
+        </>
+      )}
+      onSelect={request.select}
+      onClose={onClose}
+      emptyText={`No pages match "${query}"`}
+      header={
+        request.searchable && (
+          <div className="p-1">
+            <Input
+              autoFocus
+              placeholder="Search pages..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="py-1 text-sm"
+            />
+          </div>
+        )
+      }
+    />
+  );
+};
+
+export default PageMentionPicker;
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import EditorMenu from './EditorMenu';
+import {
+  formatShortcut,
+  searchSlashCommands,
+  SlashCommand,
+  SlashMenuRequest,
+} from './slashCommands';
+
+type SlashCommandMenuProps = {
+  request: SlashMenuRequest;
+  commands: SlashCommand[];
+  onRun: (command: SlashCommand) => void;
+  onClose: () => void;
+};
+
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
+  request,
+  commands,
+  onRun,
+  onClose,
+}) => {
+  const results = useMemo(
+    () => searchSlashCommands(commands, request.query),
+    [commands, request.query]
+  );
+
+  return (
+    <EditorMenu
+      rect={request.rect}
+      items={results}
+      getKey={(command) => command.id}
+      renderItem={(command) => (
+        <>
+          <command.icon size={14} className="text-slate-500 shrink-0" />
+          <span className="truncate">{command.title}</span>
+          <span className="ml-auto text-xs text-slate-400 shrink-0">
+            {formatShortcut(command.shortcut)}
+          </span>
+        </>
+      )}
+      onSelect={onRun}
+      onClose={onClose}
+      emptyText={`No commands match "${request.query}"`}
+    />
+  );
+};
+
+export default SlashCommandMenu;
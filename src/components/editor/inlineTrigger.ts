@@ -0,0 +1,64 @@
+// Menus opened by typing in the editor, like `@` for pages and `/` for
+// commands. The text before the caret is matched as it changes.
+
+export type TriggerMatch = {
+  // What follows the trigger character
+  query: string;
+  // Covers the trigger and the query, which the menu's choice replaces
+  range: Range;
+};
+
+// `pattern` must end at the caret, capture the trigger and query as group 1
+// and the query alone as group 2. `onChange` gets the match while the caret
+// is in one, and null otherwise. Returns a cleanup function.
+export function watchInlineTrigger(
+  holder: HTMLElement,
+  pattern: RegExp,
+  onChange: (match: TriggerMatch | null) => void,
+  // Text inside these elements is left alone
+  ignore = 'a'
+) {
+  const update = () => {
+    const selection = window.getSelection();
+    const caret = selection?.rangeCount ? selection.getRangeAt(0) : null;
+    const node = caret?.startContainer;
+    if (
+      !caret ||
+      !caret.collapsed ||
+      !node ||
+      node.nodeType !== Node.TEXT_NODE ||
+      !holder.contains(node) ||
+      node.parentElement?.closest(ignore)
+    ) {
+      onChange(null);
+      return;
+    }
+
+    const before = (node.textContent ?? '').slice(0, caret.startOffset);
+    const match = before.match(pattern);
+    if (!match) {
+      onChange(null);
+      return;
+    }
+
+    const range = document.createRange();
+    range.setStart(node, caret.startOffset - match[1].length);
+    range.setEnd(node, caret.startOffset);
+    onChange({ query: match[2].replace(/\u00a0/g, ' '), range });
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    if (['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(event.key)) {
+      update();
+    }
+  };
+
+  holder.addEventListener('input', update);
+  holder.addEventListener('click', update);
+  holder.addEventListener('keyup', handleKeyUp);
+  return () => {
+    holder.removeEventListener('input', update);
+    holder.removeEventListener('click', update);
+    holder.removeEventListener('keyup', handleKeyUp);
+  };
+}
@@ -0,0 +1,122 @@
+// Links to other pages inside the editor: typing `@` or `[[` opens a page
+// picker, and so does the inline toolbar button for selected text. The picker
+// itself is React and lives in BlockEditor, which is handed the request.
+
+import type {
+  InlineTool,
+  InlineToolConstructorOptions,
+} from '@editorjs/editorjs';
+import { Page } from '../../types';
+import { watchInlineTrigger } from './inlineTrigger';
+
+export type MentionedPage = Pick<Page, 'id' | 'title'>;
+
+export type PageMentionRequest = {
+  // Text typed after the trigger, or the selected text
+  query: string;
+  // Where to open the picker, in viewport coordinates
+  rect: DOMRect;
+  // Selections get a search box, typed mentions search as you type
+  searchable: boolean;
+  select: (page: MentionedPage) => void;
+};
+
+export type PageMentionConfig = {
+  openPicker: (request: PageMentionRequest | null) => void;
+};
+
+// `@` or `[[` at the start of a word, then up to 40 characters of query
+const MENTION_TRIGGER =
+  /(?:^|[\s\u00a0])((?:@|\[\[)(?![\s\u00a0])([^@[\]\n]{0,40}))$/;
+
+const ICON =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="4"/><path d="M16 8v5a3 3 0 0 0 6 0v-1a10 10 0 1 0-4 8"/></svg>';
+
+const findMention = (node: Node | null) =>
+  (node instanceof Element ? node : node?.parentElement)?.closest(
+    'a[href^="/page/"]'
+  ) ?? null;
+
+// Replaces `range` with a link to `page` and puts the caret after it
+export function insertPageMention(range: Range, page: MentionedPage) {
+  const link = document.createElement('a');
+  link.setAttribute('href', `/page/${page.id}`);
+  link.dataset.pageId = page.id;
+  link.textContent = page.title || 'Untitled';
+  const space = document.createTextNode('\u00a0');
+
+  range.deleteContents();
+  range.insertNode(space);
+  range.insertNode(link);
+
+  const editable = link.closest<HTMLElement>('[contenteditable="true"]');
+  editable?.focus();
+  const caret = document.createRange();
+  caret.setStartAfter(space);
+  caret.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(caret);
+}
+
+// Opens the picker while the text before the caret is a mention in progress,
+// and closes it otherwise. Returns a cleanup function.
+export function watchPageMentions(
+  holder: HTMLElement,
+  openPicker: PageMentionConfig['openPicker']
+) {
+  return watchInlineTrigger(holder, MENTION_TRIGGER, (match) =>
+    openPicker(
+      match && {
+        query: match.query,
+        rect: match.range.getBoundingClientRect(),
+        searchable: false,
+        select: (page) => insertPageMention(match.range, page),
+      }
+    )
+  );
+}
+
+// Inline toolbar button that turns the selected text into a page link
+export default class PageMentionTool implements InlineTool {
+  static isInline = true;
+
+  static title = 'Link to page';
+
+  static sanitize = {
+    a: { href: true, 'data-page-id': true },
+  };
+
+  private button: HTMLButtonElement | null = null;
+
+  private config: PageMentionConfig;
+
+  constructor({ config }: InlineToolConstructorOptions) {
+    this.config = config as PageMentionConfig;
+  }
+
+  render() {
+    this.button = document.createElement('button');
+    this.button.type = 'button';
+    this.button.classList.add('ce-inline-tool');
+    this.button.innerHTML = ICON;
+    return this.button;
+  }
+
+  surround(range: Range | null) {
+    if (!range || range.collapsed) return;
+    const target = range.cloneRange();
+    this.config.openPicker({
+      query: range.toString().trim(),
+      rect: range.getBoundingClientRect(),
+      searchable: true,
+      select: (page) => insertPageMention(target, page),
+    });
+  }
+
+  checkState(selection: Selection) {
+    const isActive = !!findMention(selection.anchorNode);
+    this.button?.classList.toggle('ce-inline-tool--active', isActive);
+    return isActive;
+  }
+}
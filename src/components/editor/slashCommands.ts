@@ -0,0 +1,344 @@
+// Commands for the `/` menu in the editor. Each one also has a keyboard
+// shortcut, which runs it at the caret.
+
+import type EditorJS from '@editorjs/editorjs';
+import Embed from '@editorjs/embed';
+import {
+  AtSign,
+  ChevronRight,
+  Code,
+  FilePlus,
+  Heading1,
+  Heading2,
+  Heading3,
+  Heading4,
+  List,
+  ListChecks,
+  ListOrdered,
+  ListTodo,
+  LucideIcon,
+  Quote,
+  Table,
+  Text,
+  Youtube,
+} from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../../store/pageStore';
+import { PageType } from '../../types';
+import { fuzzyMatch } from '../../lib/utils';
+import { watchInlineTrigger } from './inlineTrigger';
+import { insertPageMention, PageMentionRequest } from './pageMentionTool';
+
+export type SlashCommandContext = {
+  editor: EditorJS;
+  // Where the command was run, at the caret
+  range: Range;
+  // The page being edited
+  pageId?: string;
+  openPagePicker: (request: PageMentionRequest) => void;
+};
+
+export type SlashCommand = {
+  id: string;
+  title: string;
+  keywords: string[];
+  icon: LucideIcon;
+  // Mod is Cmd on a Mac and Ctrl elsewhere
+  shortcut: string;
+  // Commands that add to the page's tree need to know the page
+  needsPage?: boolean;
+  run: (context: SlashCommandContext) => void | Promise<void>;
+};
+
+export type SlashMenuRequest = {
+  query: string;
+  rect: DOMRect;
+  // The typed `/command`, removed when a command runs
+  range: Range;
+};
+
+// `/` at the start of a word, then a word or two of query
+const SLASH_TRIGGER =
+  /(?:^|[\s\u00a0])(\/([\p{L}\p{N}]*(?: [\p{L}\p{N}]*)?))$/u;
+
+const isMac =
+  typeof navigator !== 'undefined' &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+// An empty paragraph, like the one the command was typed into, is replaced.
+// Anything else gets the new block after it.
+function insertBlock(
+  { editor }: SlashCommandContext,
+  type: string,
+  data: Record<string, unknown> = {}
+) {
+  const index = editor.blocks.getCurrentBlockIndex();
+  const current = index >= 0 ? editor.blocks.getBlockByIndex(index) : undefined;
+  const replace = current?.name === 'paragraph' && current.isEmpty;
+  const block = editor.blocks.insert(
+    type,
+    data,
+    undefined,
+    index < 0 ? undefined : replace ? index : index + 1,
+    true,
+    replace
+  );
+  editor.caret.setToBlock(block, 'start');
+}
+
+// Prompts for a title, then creates a child of the page and links to it
+async function insertChildPage(
+  { range, pageId }: SlashCommandContext,
+  type: PageType,
+  label: string
+) {
+  if (!pageId) return;
+  const target = range.cloneRange();
+  const title = window.prompt(`Name the new ${label}`, 'Untitled');
+  if (title === null) return;
+
+  const { createPage } = usePageStore.getState();
+  const newPageId = await createPage(title.trim() || 'Untitled', type, pageId);
+  if (!newPageId) {
+    toast.error(`Failed to create ${label}`);
+    return;
+  }
+  insertPageMention(target, { id: newPageId, title: title.trim() });
+}
+
+const blockCommand = (
+  command: Omit<SlashCommand, 'run'>,
+  type: string,
+  data?: Record<string, unknown>
+): SlashCommand => ({
+  ...command,
+  run: (context) => insertBlock(context, type, data),
+});
+
+// The same data the Embed tool makes from a pasted link, for the services it
+// was configured with
+function getEmbedData(url: string) {
+  for (const [service, config] of Object.entries(Embed.services)) {
+    const match = config.regex.exec(url);
+    if (!match) continue;
+    const remoteId = config.id ? config.id(match.slice(1)) : match[1];
+    return {
+      service,
+      source: url,
+      embed: config.embedUrl.replace(/<%= remote_id %>/g, remoteId),
+      width: config.width,
+      height: config.height,
+      caption: '',
+    };
+  }
+  return null;
+}
+
+export const slashCommands: SlashCommand[] = [
+  blockCommand(
+    {
+      id: 'text',
+      title: 'Text',
+      keywords: ['paragraph', 'plain'],
+      icon: Text,
+      shortcut: 'Mod+Alt+0',
+    },
+    'paragraph'
+  ),
+  ...([Heading1, Heading2, Heading3, Heading4] as const).map((icon, i) =>
+    blockCommand(
+      {
+        id: `heading-${i + 1}`,
+        title: `Heading ${i + 1}`,
+        keywords: [`h${i + 1}`, 'title'],
+        icon,
+        shortcut: `Mod+Alt+${i + 1}`,
+      },
+      'header',
+      { level: i + 1 }
+    )
+  ),
+  blockCommand(
+    {
+      id: 'bulleted-list',
+      title: 'Bulleted list',
+      keywords: ['unordered', 'ul', 'bullet'],
+      icon: List,
+      shortcut: 'Mod+Shift+8',
+    },
+    'list',
+    { style: 'unordered' }
+  ),
+  blockCommand(
+    {
+      id: 'numbered-list',
+      title: 'Numbered list',
+      keywords: ['ordered', 'ol'],
+      icon: ListOrdered,
+      shortcut: 'Mod+Shift+7',
+    },
+    'list',
+    { style: 'ordered' }
+  ),
+  blockCommand(
+    {
+      id: 'checklist',
+      title: 'Checklist',
+      keywords: ['checkbox', 'check'],
+      icon: ListChecks,
+      shortcut: 'Mod+Shift+9',
+    },
+    'list',
+    { style: 'checklist' }
+  ),
+  blockCommand(
+    {
+      id: 'table',
+      title: 'Table',
+      keywords: ['grid', 'rows', 'columns'],
+      icon: Table,
+      shortcut: 'Mod+Alt+T',
+    },
+    'table'
+  ),
+  blockCommand(
+    {
+      id: 'code',
+      title: 'Code',
+      keywords: ['snippet', 'pre'],
+      icon: Code,
+      shortcut: 'Mod+Alt+C',
+    },
+    'code'
+  ),
+  blockCommand(
+    {
+      id: 'quote',
+      title: 'Quote',
+      keywords: ['blockquote', 'citation'],
+      icon: Quote,
+      shortcut: 'Mod+Shift+O',
+    },
+    'quote'
+  ),
+  blockCommand(
+    {
+      id: 'toggle',
+      title: 'Toggle',
+      keywords: ['collapse', 'details', 'fold'],
+      icon: ChevronRight,
+      shortcut: 'Mod+Alt+G',
+    },
+    'toggle'
+  ),
+  {
+    id: 'embed',
+    title: 'Embed video',
+    keywords: ['youtube', 'vimeo', 'video'],
+    icon: Youtube,
+    shortcut: 'Mod+Alt+E',
+    run: (context) => {
+      const url = window.prompt('Paste a YouTube or Vimeo link');
+      if (!url) return;
+      const data = getEmbedData(url.trim());
+      if (!data) {
+        toast.error("That link can't be embedded");
+        return;
+      }
+      insertBlock(context, 'embed', data);
+    },
+  },
+  {
+    id: 'link-to-page',
+    title: 'Link to page',
+    keywords: ['mention', 'reference', '@'],
+    icon: AtSign,
+    shortcut: 'Mod+Shift+K',
+    run: ({ range, openPagePicker }) => {
+      const target = range.cloneRange();
+      openPagePicker({
+        query: '',
+        rect: target.getBoundingClientRect(),
+        searchable: true,
+        select: (page) => insertPageMention(target, page),
+      });
+    },
+  },
+  {
+    id: 'sub-page',
+    title: 'New sub-page here',
+    keywords: ['page', 'child', 'nested'],
+    icon: FilePlus,
+    shortcut: 'Mod+Alt+N',
+    needsPage: true,
+    run: (context) => insertChildPage(context, 'note', 'sub-page'),
+  },
+  {
+    id: 'todo-list',
+    title: 'New to-do list here',
+    keywords: ['todo', 'task', 'page'],
+    icon: ListTodo,
+    shortcut: 'Mod+Shift+L',
+    needsPage: true,
+    run: (context) => insertChildPage(context, 'todo', 'to-do list'),
+  },
+];
+
+// Best matches first, in menu order when nothing is typed
+export function searchSlashCommands(commands: SlashCommand[], query: string) {
+  return commands
+    .map((command, index) => ({
+      command,
+      index,
+      score: Math.max(
+        ...[command.title, ...command.keywords].map(
+          (text) => fuzzyMatch(query, text) ?? -Infinity
+        )
+      ),
+    }))
+    .filter((result) => result.score > -Infinity)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((result) => result.command);
+}
+
+export function matchesShortcut(event: KeyboardEvent, shortcut: string) {
+  const keys = shortcut.split('+');
+  const key = keys[keys.length - 1];
+  // Alt changes the character on a Mac, so compare physical keys
+  const code = /^\d$/.test(key) ? `Digit${key}` : `Key${key}`;
+  return (
+    event.code === code &&
+    (isMac ? event.metaKey : event.ctrlKey) === keys.includes('Mod') &&
+    event.altKey === keys.includes('Alt') &&
+    event.shiftKey === keys.includes('Shift')
+  );
+}
+
+export function formatShortcut(shortcut: string) {
+  if (!isMac) return shortcut.replace('Mod', 'Ctrl');
+  return shortcut
+    .replace('Mod', '⌘')
+    .replace('Alt', '⌥')
+    .replace('Shift', '⇧')
+    .replace(/\+/g, '');
+}
+
+// Opens the menu while a `/command` is being typed in a paragraph, and closes
+// it otherwise. Returns a cleanup function.
+export function watchSlashCommands(
+  holder: HTMLElement,
+  openMenu: (request: SlashMenuRequest | null) => void
+) {
+  return watchInlineTrigger(holder, SLASH_TRIGGER, (match) =>
+    openMenu(
+      match &&
+        match.range.startContainer.parentElement?.closest('.ce-paragraph')
+        ? {
+            query: match.query,
+            rect: match.range.getBoundingClientRect(),
+            range: match.range,
+          }
+        : null
+    )
+  );
+}
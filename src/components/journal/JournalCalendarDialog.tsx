@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { usePageStore } from '../../store/pageStore';
+import { parseJournalDate, toJournalDate } from '../../lib/journal';
+import Button from '../ui/Button';
+
+type JournalCalendarDialogProps = {
+  // The day being viewed, if any
+  selectedDate?: string | null;
+  onClose: () => void;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const JournalCalendarDialog: React.FC<JournalCalendarDialogProps> = ({
+  selectedDate = null,
+  onClose,
+}) => {
+  const { pages } = usePageStore();
+  const navigate = useNavigate();
+  const today = toJournalDate();
+  const [month, setMonth] = useState(() =>
+    startOfMonth((selectedDate && parseJournalDate(selectedDate)) || new Date())
+  );
+
+  const journalDates = useMemo(
+    () =>
+      new Set(
+        pages
+          .filter((page) => page.journal_date)
+          .map((page) => page.journal_date!)
+      ),
+    [pages]
+  );
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(month),
+    end: endOfWeek(endOfMonth(month)),
+  });
+
+  const handleSelect = (date: string) => {
+    onClose();
+    navigate(`/journal/${date}`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-5 w-full max-w-sm shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <CalendarDays size={20} />
+            Journal
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => setMonth(addMonths(month, -1))}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title="Previous month"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <span className="font-medium text-slate-800">
+            {format(month, 'MMMM yyyy')}
+          </span>
+          <button
+            onClick={() => setMonth(addMonths(month, 1))}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title="Next month"
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {WEEKDAYS.map((weekday) => (
+            <span key={weekday} className="text-xs text-slate-400 py-1">
+              {weekday}
+            </span>
+          ))}
+          {days.map((day) => {
+            const date = toJournalDate(day);
+            const isSelected = date === selectedDate;
+            return (
+              <button
+                key={date}
+                onClick={() => handleSelect(date)}
+                className={`relative h-9 rounded-md text-sm ${
+                  isSelected
+                    ? 'bg-blue-600 text-white'
+                    : date === today
+                      ? 'bg-blue-50 text-blue-700 font-semibold hover:bg-blue-100'
+                      : isSameMonth(day, month)
+                        ? 'text-slate-700 hover:bg-slate-100'
+                        : 'text-slate-300 hover:bg-slate-50'
+                }`}
+                title={format(day, 'EEEE, MMMM d, yyyy')}
+              >
+                {format(day, 'd')}
+                {journalDates.has(date) && (
+                  <span
+                    className={`absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full ${
+                      isSelected ? 'bg-white' : 'bg-emerald-500'
+                    }`}
+                  />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between items-center mt-4">
+          <span className="text-xs text-slate-500 flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+            Has a journal page
+          </span>
+          <Button size="sm" onClick={() => handleSelect(today)}>
+            Today
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalCalendarDialog;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Outlet, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import { usePageStore } from '../../store/pageStore';
+import { startRealtimeSync } from '../../lib/realtime';
+import { maintainLocalStorage } from '../../lib/storageManager';
 import Sidebar from './Sidebar';
 import MobileNav from './MobileNav';
+import ConflictDialog from '../sync/ConflictDialog';
+import OfflineBanner from '../sync/OfflineBanner';
 import Spinner from '../ui/Spinner';
 import { Menu, X } from 'lucide-react';
 
@@ -23,6 +28,23 @@ const MainLayout: React.FC = () => {
     }
   }, [initialized, loading, user, navigate]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    return startRealtimeSync(user.id, {
+      onResync: () => usePageStore.getState().fetchPages(),
+    });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const currentPage = usePageStore.getState().currentPage;
+    maintainLocalStorage(currentPage ? [currentPage.id] : []).catch((error) =>
+      console.error('Error maintaining local storage:', error)
+    );
+  }, [user]);
+
   if (!initialized || loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -57,6 +79,7 @@ const MainLayout: React.FC = () => {
       </div>
 
       <div className="flex-1 flex flex-col overflow-hidden">
+        <OfflineBanner />
         <main className="flex-1 overflow-y-auto pb-16 md:pb-0">
           <Outlet />
         </main>
@@ -82,6 +105,8 @@ const MainLayout: React.FC = () => {
         {/* Mobile specific navigation */}
         <MobileNav />
       </div>
+
+      <ConflictDialog />
     </div>
   );
 };
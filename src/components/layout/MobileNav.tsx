@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Search, Book, Settings, Key } from 'lucide-react';
+import { Home, Search, Book, Settings, Key, CalendarDays } from 'lucide-react';
 
 const MobileNav: React.FC = () => {
   const location = useLocation();
@@ -37,6 +37,16 @@ const MobileNav: React.FC = () => {
           <span className="text-xs mt-1">Pages</span>
         </Link>
 
+        <Link
+          to="/journal"
+          className={`flex flex-col items-center justify-center px-4 py-2 ${
+            isActive('/journal') ? 'text-blue-600' : 'text-slate-600'
+          }`}
+        >
+          <CalendarDays size={20} />
+          <span className="text-xs mt-1">Today</span>
+        </Link>
+
         <Link
           to="/secret"
           className={`flex flex-col items-center justify-center px-4 py-2 ${
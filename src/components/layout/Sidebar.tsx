@@ -9,14 +9,27 @@ import {
   ListTodo,
   Pin,
   Settings,
+  Trash2,
   HomeIcon,
   GripVertical,
+  FolderInput,
+  CornerUpLeft,
+  Copy,
+  CalendarDays,
+  Calendar,
+  Network,
 } from 'lucide-react';
 import {
   DndContext,
+  DragEndEvent,
+  DragMoveEvent,
   closestCenter,
+  pointerWithin,
   KeyboardSensor,
   PointerSensor,
+  useDndContext,
+  useDraggable,
+  useDroppable,
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
@@ -27,9 +40,41 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { usePageStore } from '../../store/pageStore';
+import toast from 'react-hot-toast';
+import { usePageStore, PagePlacement } from '../../store/pageStore';
+import { canMovePage, getChildPages } from '../../lib/pageTree';
 import Button from '../ui/Button';
-import { Page } from '../../types';
+import SyncStatusIndicator from '../sync/SyncStatusIndicator';
+import MovePageDialog from '../pages/MovePageDialog';
+import DuplicatePageDialog from '../pages/DuplicatePageDialog';
+import JournalCalendarDialog from '../journal/JournalCalendarDialog';
+import PageIcon from '../pages/PageIcon';
+import TemplateGallery from '../templates/TemplateGallery';
+import CreateFromTemplateDialog from '../templates/CreateFromTemplateDialog';
+import { Page, PageTemplate } from '../../types';
+
+// Drop target in the page tree that moves a page to the top level
+const ROOT_DROP_ID = 'page-tree-root';
+
+type DropTarget = { id: string; side: 'before' | 'inside' | 'after' };
+
+// The top and bottom quarters of a row drop the page beside it, the middle
+// into it
+function getDropTarget({
+  active,
+  over,
+}: DragMoveEvent | DragEndEvent): DropTarget | null {
+  const dragged = active.rect.current.translated;
+  if (!over || !dragged || over.id === active.id) return null;
+  if (over.id === ROOT_DROP_ID) return { id: ROOT_DROP_ID, side: 'inside' };
+
+  const ratio =
+    (dragged.top + dragged.height / 2 - over.rect.top) / over.rect.height;
+  return {
+    id: String(over.id),
+    side: ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside',
+  };
+}
 
 type SortablePageItemProps = {
   page: Page;
@@ -72,11 +117,7 @@ const SortablePageItem: React.FC<SortablePageItemProps> = ({
           }
         }}
       >
-        {page.type === 'note' ? (
-          <PenSquare size={16} className="mr-2 text-slate-500" />
-        ) : (
-          <ListTodo size={16} className="mr-2 text-slate-500" />
-        )}
+        <PageIcon type={page.type} className="mr-2 text-slate-500" />
         <span className="truncate">{page.title}</span>
       </Link>
 
@@ -99,15 +140,45 @@ type PageItemProps = {
   page: Page;
   level: number;
   onCreatePage: (parentId: string) => void;
+  onMovePage: (page: Page) => void;
+  onDuplicatePage: (page: Page) => void;
+  dropTarget: DropTarget | null;
 };
 
-const PageItem: React.FC<PageItemProps> = ({ page, level, onCreatePage }) => {
+const PageItem: React.FC<PageItemProps> = ({
+  page,
+  level,
+  onCreatePage,
+  onMovePage,
+  onDuplicatePage,
+  dropTarget,
+}) => {
   const [isOpen, setIsOpen] = useState(false);
   const { pages, togglePinPage } = usePageStore();
-
-  const childPages = pages.filter((p) => p.parent_id === page.id);
+  const { active } = useDndContext();
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDragRef,
+    isDragging,
+  } = useDraggable({ id: page.id });
+  const { setNodeRef: setDropRef } = useDroppable({ id: page.id });
+
+  const childPages = getChildPages(pages, page.id);
   const hasChildren = childPages.length > 0;
 
+  // Only show drops that would be accepted
+  const dropSide =
+    active && dropTarget?.id === page.id
+      ? canMovePage(
+          pages,
+          String(active.id),
+          dropTarget.side === 'inside' ? page.id : page.parent_id
+        )
+        ? dropTarget.side
+        : null
+      : null;
+
   const toggleOpen = () => {
     if (hasChildren) {
       setIsOpen(!isOpen);
@@ -121,60 +192,108 @@ const PageItem: React.FC<PageItemProps> = ({ page, level, onCreatePage }) => {
   };
 
   return (
-    <div className="w-full">
-      <Link
-        to={`/page/${page.id}`}
-        className={`flex items-center px-3 py-1.5 text-sm rounded-md hover:bg-slate-100 transition-colors group ${
-          level === 0 ? 'font-medium' : ''
-        }`}
-        style={{
-          paddingLeft: `${level * 12 + 12}px`,
+    <div className={`w-full ${isDragging ? 'opacity-50' : ''}`}>
+      <div
+        ref={(node) => {
+          setDragRef(node);
+          setDropRef(node);
         }}
+        {...attributes}
+        className={`relative rounded-md ${dropSide === 'inside' ? 'bg-blue-50 ring-2 ring-blue-400' : ''}`}
       >
-        <div className="flex items-center flex-1 overflow-hidden">
-          {hasChildren && (
+        {dropSide === 'before' && (
+          <div className="absolute inset-x-0 -top-0.5 h-0.5 bg-blue-500" />
+        )}
+        {dropSide === 'after' && (
+          <div className="absolute inset-x-0 -bottom-0.5 h-0.5 bg-blue-500" />
+        )}
+        <Link
+          to={`/page/${page.id}`}
+          className={`flex items-center px-3 py-1.5 text-sm rounded-md hover:bg-slate-100 transition-colors group ${
+            level === 0 ? 'font-medium' : ''
+          }`}
+          style={{
+            paddingLeft: `${level * 12 + 12}px`,
+          }}
+        >
+          <div className="flex items-center flex-1 overflow-hidden">
+            <div
+              {...listeners}
+              onClick={(e) => e.preventDefault()}
+              className="cursor-grab hover:cursor-grabbing mr-1 opacity-0 group-hover:opacity-100 touch-none"
+              title="Drag into another page"
+            >
+              <GripVertical size={14} className="text-slate-400" />
+            </div>
+
+            {hasChildren && (
+              <button
+                onClick={toggleOpen}
+                className="mr-1 p-0.5 hover:bg-slate-200 rounded"
+              >
+                {isOpen ? (
+                  <ChevronDown size={14} />
+                ) : (
+                  <ChevronRight size={14} />
+                )}
+              </button>
+            )}
+            {!hasChildren && <div className="w-5" />}
+
+            <PageIcon type={page.type} className="mr-2 text-slate-500" />
+
+            <span className="truncate">{page.title}</span>
+          </div>
+
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
             <button
-              onClick={toggleOpen}
-              className="mr-1 p-0.5 hover:bg-slate-200 rounded"
+              onClick={handleTogglePin}
+              className={`p-1 rounded hover:bg-slate-200 ${
+                page.is_pinned ? 'text-amber-500' : 'text-slate-400'
+              }`}
+              title={page.is_pinned ? 'Unpin' : 'Pin'}
             >
-              {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              <Pin size={14} />
             </button>
-          )}
-          {!hasChildren && <div className="w-5" />}
 
-          {page.type === 'note' ? (
-            <PenSquare size={16} className="mr-2 text-slate-500" />
-          ) : (
-            <ListTodo size={16} className="mr-2 text-slate-500" />
-          )}
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onMovePage(page);
+              }}
+              className="p-1 rounded hover:bg-slate-200 text-slate-400"
+              title="Move to..."
+            >
+              <FolderInput size={14} />
+            </button>
 
-          <span className="truncate">{page.title}</span>
-        </div>
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onDuplicatePage(page);
+              }}
+              className="p-1 rounded hover:bg-slate-200 text-slate-400"
+              title="Duplicate"
+            >
+              <Copy size={14} />
+            </button>
 
-        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button
-            onClick={handleTogglePin}
-            className={`p-1 rounded hover:bg-slate-200 ${
-              page.is_pinned ? 'text-amber-500' : 'text-slate-400'
-            }`}
-            title={page.is_pinned ? 'Unpin' : 'Pin'}
-          >
-            <Pin size={14} />
-          </button>
-
-          <button
-            onClick={(e) => {
-              e.preventDefault();
-              e.stopPropagation();
-              onCreatePage(page.id);
-            }}
-            className="p-1 rounded hover:bg-slate-200 text-slate-400"
-            title="Add page"
-          >
-            <Plus size={14} />
-          </button>
-        </div>
-      </Link>
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onCreatePage(page.id);
+              }}
+              className="p-1 rounded hover:bg-slate-200 text-slate-400"
+              title="Add page"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </Link>
+      </div>
 
       {isOpen && hasChildren && (
         <div>
@@ -184,6 +303,9 @@ const PageItem: React.FC<PageItemProps> = ({ page, level, onCreatePage }) => {
               page={childPage}
               level={level + 1}
               onCreatePage={onCreatePage}
+              onMovePage={onMovePage}
+              onDuplicatePage={onDuplicatePage}
+              dropTarget={dropTarget}
             />
           ))}
         </div>
@@ -192,6 +314,30 @@ const PageItem: React.FC<PageItemProps> = ({ page, level, onCreatePage }) => {
   );
 };
 
+// Shown while a sub-page is dragged, to move it back to the top level
+const RootDropZone: React.FC = () => {
+  const { active } = useDndContext();
+  const { pages } = usePageStore();
+  const { setNodeRef, isOver } = useDroppable({ id: ROOT_DROP_ID });
+
+  const draggedPage = active && pages.find((p) => p.id === active.id);
+  if (!draggedPage?.parent_id) return null;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex items-center gap-2 px-3 py-1.5 mb-1 text-sm rounded-md border border-dashed ${
+        isOver
+          ? 'border-blue-400 bg-blue-50 text-blue-700'
+          : 'border-slate-300 text-slate-500'
+      }`}
+    >
+      <CornerUpLeft size={14} />
+      <span>Move to top level</span>
+    </div>
+  );
+};
+
 type SidebarProps = {
   isOpen: boolean;
   onToggle: () => void;
@@ -202,15 +348,22 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
   const [isCreatingPage, setIsCreatingPage] = useState(false);
   const [newPageType, setNewPageType] = useState<'note' | 'todo'>('note');
   const [parentId, setParentId] = useState<string | null>(null);
+  const [movingPage, setMovingPage] = useState<Page | null>(null);
+  const [duplicatingPage, setDuplicatingPage] = useState<Page | null>(null);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [template, setTemplate] = useState<PageTemplate | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
 
   const {
     pages,
+    trashedPages,
     loading,
     createPage,
     fetchPages,
     reorderPinnedPages,
     fetchPinnedOrder,
     pinnedOrder,
+    movePage,
   } = usePageStore();
 
   const sensors = useSensors(
@@ -219,6 +372,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
       coordinateGetter: sortableKeyboardCoordinates,
     })
   );
+  // A small drag distance keeps clicks on tree items working as links
+  const treeSensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
   useEffect(() => {
     const loadData = async () => {
       await fetchPages();
@@ -227,7 +386,10 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
     loadData();
   }, [fetchPages, fetchPinnedOrder]);
 
-  const rootPages = pages.filter((page) => page.parent_id === null);
+  // Journal days are reached through Today and the calendar instead
+  const rootPages = getChildPages(pages, null).filter(
+    (page) => page.type !== 'journal'
+  );
   const pinnedPages = pages.filter((page) => page.is_pinned);
 
   // Update the sortedPinnedPages calculation
@@ -287,6 +449,46 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
     }
   };
 
+  const handleTreeDragMove = (event: DragMoveEvent) => {
+    const target = getDropTarget(event);
+    if (target?.id !== dropTarget?.id || target?.side !== dropTarget?.side) {
+      setDropTarget(target);
+    }
+  };
+
+  // Dropping a page onto another makes it a sub-page of that page, and
+  // dropping it above or below one puts it next to that page
+  const handleTreeDragEnd = async (event: DragEndEvent) => {
+    setDropTarget(null);
+    const target = getDropTarget(event);
+    if (!target) return;
+
+    const pageId = String(event.active.id);
+    let newParentId: string | null = null;
+    let placement: PagePlacement | undefined;
+    if (target.side === 'inside') {
+      newParentId = target.id === ROOT_DROP_ID ? null : target.id;
+    } else {
+      const sibling = pages.find((p) => p.id === target.id);
+      if (!sibling) return;
+      newParentId = sibling.parent_id;
+      placement = { siblingId: sibling.id, side: target.side };
+    }
+
+    if (!canMovePage(pages, pageId, newParentId)) {
+      toast.error("A page can't be moved into one of its own sub-pages");
+      return;
+    }
+
+    try {
+      await movePage(pageId, newParentId, placement);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to move page'
+      );
+    }
+  };
+
   // useEffect(() => {
   //   console.log('Current pinnedOrder:', pinnedOrder);
   //   console.log('Sorted pinned pages:', sortedPinnedPages);
@@ -315,6 +517,19 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
     }
   };
 
+  // The create dialog hands over to the template's own dialog, keeping the
+  // parent it was opened for
+  const handleSelectTemplate = (selected: PageTemplate) => {
+    setIsCreatingPage(false);
+    setNewPageType('note');
+    setTemplate(selected);
+  };
+
+  const handleCloseTemplate = () => {
+    setTemplate(null);
+    setParentId(null);
+  };
+
   const sidebarVariants = {
     open: { x: 0, transition: { type: 'spring', stiffness: 300, damping: 30 } },
     closed: {
@@ -354,6 +569,29 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
             <HomeIcon size={16} className="mr-2 text-slate-500" />
             <span className="truncate">All Notes</span>
           </Link>
+          <div className="flex items-center group">
+            <Link
+              to="/journal"
+              className="flex flex-1 items-center py-1.5 text-sm rounded-md hover:bg-slate-100 transition-colors"
+            >
+              <CalendarDays size={16} className="mr-2 text-slate-500" />
+              <span className="truncate">Today</span>
+            </Link>
+            <button
+              onClick={() => setShowCalendar(true)}
+              className="p-1 rounded hover:bg-slate-200 text-slate-400"
+              title="Open a day's journal"
+            >
+              <Calendar size={14} />
+            </button>
+          </div>
+          <Link
+            to="/graph"
+            className="flex items-center py-1.5 text-sm rounded-md hover:bg-slate-100 transition-colors"
+          >
+            <Network size={16} className="mr-2 text-slate-500" />
+            <span className="truncate">Graph</span>
+          </Link>
         </div>
 
         {pinnedPages.length > 0 && (
@@ -400,20 +638,45 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
           ) : rootPages.length === 0 ? (
             <div className="text-sm text-slate-500 px-3 py-2">No pages yet</div>
           ) : (
-            <div className="space-y-1">
-              {rootPages.map((page) => (
-                <PageItem
-                  key={page.id}
-                  page={page}
-                  level={0}
-                  onCreatePage={handleCreatePageWithParent}
-                />
-              ))}
-            </div>
+            <DndContext
+              sensors={treeSensors}
+              collisionDetection={pointerWithin}
+              onDragMove={handleTreeDragMove}
+              onDragEnd={handleTreeDragEnd}
+              onDragCancel={() => setDropTarget(null)}
+            >
+              <RootDropZone />
+              <div className="space-y-1">
+                {rootPages.map((page) => (
+                  <PageItem
+                    key={page.id}
+                    page={page}
+                    level={0}
+                    onCreatePage={handleCreatePageWithParent}
+                    onMovePage={setMovingPage}
+                    onDuplicatePage={setDuplicatingPage}
+                    dropTarget={dropTarget}
+                  />
+                ))}
+              </div>
+            </DndContext>
           )}
         </div>
 
         <div className="p-3 border-t border-slate-200">
+          <SyncStatusIndicator />
+          <Link
+            to="/trash"
+            className="flex items-center px-3 py-2 text-sm rounded-md hover:bg-slate-100 transition-colors"
+          >
+            <Trash2 size={16} className="mr-2 text-slate-500" />
+            <span className="flex-1">Trash</span>
+            {trashedPages.length > 0 && (
+              <span className="text-xs text-slate-400">
+                {trashedPages.length}
+              </span>
+            )}
+          </Link>
           <Link
             to="/settings"
             className="flex items-center px-3 py-2 text-sm rounded-md hover:bg-slate-100 transition-colors"
@@ -424,6 +687,37 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
         </div>
       </motion.div>
 
+      {movingPage && (
+        <MovePageDialog page={movingPage} onClose={() => setMovingPage(null)} />
+      )}
+
+      {showCalendar && (
+        <JournalCalendarDialog onClose={() => setShowCalendar(false)} />
+      )}
+
+      {duplicatingPage && (
+        <DuplicatePageDialog
+          page={duplicatingPage}
+          onClose={() => setDuplicatingPage(null)}
+          onDuplicated={(copyId) => {
+            setDuplicatingPage(null);
+            navigate(`/page/${copyId}`);
+          }}
+        />
+      )}
+
+      {template && (
+        <CreateFromTemplateDialog
+          template={template}
+          parentId={parentId}
+          onClose={handleCloseTemplate}
+          onCreated={(pageId) => {
+            handleCloseTemplate();
+            navigate(`/page/${pageId}`);
+          }}
+        />
+      )}
+
       {isCreatingPage && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-5 w-full max-w-md">
@@ -491,6 +785,16 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen }) => {
                   This page will be created under another page.
                 </div>
               )}
+
+              <div className="pt-4 border-t border-slate-200">
+                <h3 className="text-sm font-medium text-slate-700 mb-2">
+                  Or start from a template
+                </h3>
+                <TemplateGallery
+                  onSelect={handleSelectTemplate}
+                  className="grid grid-cols-1 gap-2 max-h-60 overflow-y-auto"
+                />
+              </div>
             </div>
 
             <div className="flex gap-3 justify-end">
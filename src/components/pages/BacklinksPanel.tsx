@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Link2 } from 'lucide-react';
+import { Backlink, useBacklinkStore } from '../../store/backlinkStore';
+import { Page } from '../../types';
+import Spinner from '../ui/Spinner';
+import PageIcon from './PageIcon';
+
+const BacklinkList: React.FC<{ backlinks: Backlink[] }> = ({ backlinks }) => (
+  <ul className="space-y-2">
+    {backlinks.map(({ page, snippets }) => (
+      <li key={page.id}>
+        <Link
+          to={`/page/${page.id}`}
+          className="flex items-center gap-2 text-sm font-medium text-slate-800 hover:text-blue-600"
+        >
+          <PageIcon type={page.type} size={14} />
+          <span className="truncate">{page.title || 'Untitled'}</span>
+        </Link>
+        {snippets.map((snippet, index) => (
+          <p
+            key={index}
+            className="ml-6 mt-0.5 text-xs text-slate-500 break-words line-clamp-2"
+          >
+            {snippet}
+          </p>
+        ))}
+      </li>
+    ))}
+  </ul>
+);
+
+type BacklinksPanelProps = {
+  page: Page;
+};
+
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ page }) => {
+  const { pageId, linked, unlinked, loading, error, fetchBacklinks } =
+    useBacklinkStore();
+  const [showUnlinked, setShowUnlinked] = useState(false);
+
+  // Mentions depend on the title, so a rename looks again
+  useEffect(() => {
+    fetchBacklinks(page.id, page.title);
+  }, [page.id, page.title, fetchBacklinks]);
+
+  const isCurrent = pageId === page.id;
+
+  return (
+    <section className="bg-white rounded-lg border border-slate-200 p-4 md:p-6">
+      <h2 className="text-sm font-semibold text-slate-700 flex items-center gap-2 mb-3">
+        <Link2 size={16} />
+        Linked from
+        {isCurrent && linked.length > 0 && (
+          <span className="text-slate-400 font-normal">{linked.length}</span>
+        )}
+        {loading && <Spinner size="sm" />}
+      </h2>
+
+      {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+
+      {isCurrent && linked.length > 0 ? (
+        <BacklinkList backlinks={linked} />
+      ) : (
+        !loading && (
+          <p className="text-sm text-slate-500">No pages link here yet.</p>
+        )
+      )}
+
+      {isCurrent && unlinked.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-100">
+          <button
+            onClick={() => setShowUnlinked(!showUnlinked)}
+            className="flex items-center gap-1 text-sm font-medium text-slate-600 hover:text-slate-800 mb-2"
+          >
+            {showUnlinked ? (
+              <ChevronDown size={16} />
+            ) : (
+              <ChevronRight size={16} />
+            )}
+            Unlinked mentions
+            <span className="text-slate-400 font-normal">
+              {unlinked.length}
+            </span>
+          </button>
+          {showUnlinked && <BacklinkList backlinks={unlinked} />}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Copy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../../store/pageStore';
+import { getDescendantIds } from '../../lib/pageTree';
+import { Page } from '../../types';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+
+type DuplicatePageDialogProps = {
+  page: Page;
+  onClose: () => void;
+  onDuplicated: (copyId: string) => void;
+};
+
+const DuplicatePageDialog: React.FC<DuplicatePageDialogProps> = ({
+  page,
+  onClose,
+  onDuplicated,
+}) => {
+  const { pages, duplicatePage } = usePageStore();
+  const [withSubpages, setWithSubpages] = useState(true);
+  const [duplicating, setDuplicating] = useState(false);
+
+  const subPageCount = getDescendantIds(pages, page.id).length;
+
+  const handleDuplicate = async () => {
+    setDuplicating(true);
+    try {
+      const copyId = await duplicatePage(
+        page.id,
+        withSubpages && subPageCount > 0
+      );
+      toast.success(`Duplicated "${page.title}"`);
+      onDuplicated(copyId);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to duplicate page'
+      );
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-5 w-full max-w-md shadow-xl">
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <Copy size={20} />
+          Duplicate "{page.title}"
+        </h2>
+        <p className="text-sm text-slate-500 mb-4">
+          The copy gets its content, to-dos and links, and is placed right after
+          the original.
+        </p>
+
+        {subPageCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-slate-700 mb-4">
+            <input
+              type="checkbox"
+              checked={withSubpages}
+              onChange={(e) => setWithSubpages(e.target.checked)}
+            />
+            Include its {subPageCount} sub-page{subPageCount > 1 ? 's' : ''}
+          </label>
+        )}
+
+        <div className="flex gap-3 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={duplicating}>
+            Cancel
+          </Button>
+          <Button
+            className="flex items-center gap-2"
+            onClick={handleDuplicate}
+            disabled={duplicating}
+          >
+            {duplicating && <Spinner size="sm" />}
+            <span>Duplicate</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatePageDialog;
@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { CornerUpLeft, FolderInput } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../../store/pageStore';
+import { getDescendantIds, getPagePath } from '../../lib/pageTree';
+import { Page } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Spinner from '../ui/Spinner';
+import PageIcon from './PageIcon';
+
+type MovePageDialogProps = {
+  page: Page;
+  onClose: () => void;
+};
+
+const MovePageDialog: React.FC<MovePageDialogProps> = ({ page, onClose }) => {
+  const { pages, movePage } = usePageStore();
+  const [query, setQuery] = useState('');
+  const [movingTo, setMovingTo] = useState<string | null | undefined>();
+
+  // The page itself and its sub-pages can't take it in
+  const targets = useMemo(() => {
+    const excluded = new Set([page.id, ...getDescendantIds(pages, page.id)]);
+    const search = query.trim().toLowerCase();
+    return pages
+      .filter((p) => !excluded.has(p.id))
+      .filter((p) => !search || p.title.toLowerCase().includes(search))
+      .map((p) => ({
+        page: p,
+        path: getPagePath(pages, p.id)
+          .map((ancestor) => ancestor.title)
+          .join(' / '),
+      }))
+      .sort((a, b) =>
+        `${a.path}/${a.page.title}`.localeCompare(`${b.path}/${b.page.title}`)
+      );
+  }, [pages, page.id, query]);
+
+  const handleMove = async (parent: Page | null) => {
+    setMovingTo(parent?.id ?? null);
+    try {
+      await movePage(page.id, parent?.id ?? null);
+      toast.success(
+        parent
+          ? `Moved "${page.title}" into "${parent.title}"`
+          : `Moved "${page.title}" to the top level`
+      );
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to move page'
+      );
+    } finally {
+      setMovingTo(undefined);
+    }
+  };
+
+  const isBusy = movingTo !== undefined;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-md max-h-[80vh] flex flex-col shadow-xl">
+        <div className="p-5 border-b border-slate-200 space-y-3">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <FolderInput size={20} />
+            Move "{page.title}"
+          </h2>
+          <Input
+            autoFocus
+            placeholder="Search pages..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {!query && (
+            <button
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:hover:bg-transparent"
+              onClick={() => handleMove(null)}
+              disabled={isBusy || page.parent_id === null}
+            >
+              {movingTo === null ? (
+                <Spinner size="sm" />
+              ) : (
+                <CornerUpLeft size={16} className="text-slate-500" />
+              )}
+              <span className="flex-1 text-left">Top level</span>
+              {page.parent_id === null && (
+                <span className="text-xs text-slate-400">Current</span>
+              )}
+            </button>
+          )}
+
+          {targets.map(({ page: target, path }) => (
+            <button
+              key={target.id}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-slate-100 disabled:opacity-50 disabled:hover:bg-transparent"
+              onClick={() => handleMove(target)}
+              disabled={isBusy || page.parent_id === target.id}
+            >
+              {movingTo === target.id ? (
+                <Spinner size="sm" />
+              ) : (
+                <PageIcon type={target.type} className="text-slate-500" />
+              )}
+              <span className="flex-1 min-w-0 text-left">
+                <span className="block truncate">{target.title}</span>
+                {path && (
+                  <span className="block truncate text-xs text-slate-400">
+                    {path}
+                  </span>
+                )}
+              </span>
+              {page.parent_id === target.id && (
+                <span className="text-xs text-slate-400">Current</span>
+              )}
+            </button>
+          ))}
+
+          {query && targets.length === 0 && (
+            <p className="text-sm text-slate-500 px-3 py-2">
+              No pages match "{query}"
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end">
+          <Button variant="outline" onClick={onClose} disabled={isBusy}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MovePageDialog;
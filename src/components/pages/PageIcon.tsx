@@ -0,0 +1,29 @@
+import React from 'react';
+import { CalendarDays, ListTodo, PenSquare } from 'lucide-react';
+import { PageType } from '../../types';
+
+const icons: Record<PageType, typeof PenSquare> = {
+  note: PenSquare,
+  todo: ListTodo,
+  journal: CalendarDays,
+};
+
+const colors: Record<PageType, string> = {
+  note: 'text-blue-600',
+  todo: 'text-indigo-600',
+  journal: 'text-emerald-600',
+};
+
+type PageIconProps = {
+  type: PageType;
+  size?: number;
+  // Replaces the type's own color
+  className?: string;
+};
+
+const PageIcon: React.FC<PageIconProps> = ({ type, size = 16, className }) => {
+  const Icon = icons[type] ?? PenSquare;
+  return <Icon size={size} className={className ?? colors[type]} />;
+};
+
+export default PageIcon;
@@ -1,62 +1,95 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { ExternalLink } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
-import { Page } from '../../types';
+import { ExternalLink, Unlink } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../../store/pageStore';
+import { usePageSummaryStore } from '../../store/pageSummaryStore';
+import { removePageReferences } from '../../lib/pageLinks';
 
 type PageLinkProps = {
   pageId: string;
+  // The page the link is in, which lets links to missing pages be removed
+  sourcePageId?: string;
   className?: string;
 };
 
-const PageLink: React.FC<PageLinkProps> = ({ pageId, className = '' }) => {
-  const [page, setPage] = useState<Page | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
+const PageLink: React.FC<PageLinkProps> = ({ pageId, sourcePageId, className = '' }) => {
+  // Pages in the store stay current as they are renamed or trashed
+  const storedPage = usePageStore(
+    (state) =>
+      state.pages.find((p) => p.id === pageId) ??
+      state.trashedPages.find((p) => p.id === pageId)
+  );
+  const target = usePageSummaryStore((state) => state.targets[pageId]);
+  const requestPage = usePageSummaryStore((state) => state.requestPage);
+  const [removing, setRemoving] = useState(false);
+
   useEffect(() => {
-    const fetchPage = async () => {
-      try {
-        setLoading(true);
-        
-        const { data, error } = await supabase
-          .from('pages')
-          .select('id, title, type')
-          .eq('id', pageId)
-          .single();
-        
-        if (error) throw error;
-        
-        setPage(data as Page);
-      } catch (error: any) {
-        console.error('Error fetching linked page:', error);
-        setError(error.message || 'Failed to fetch page');
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    if (pageId) {
-      fetchPage();
+    if (pageId && !storedPage) {
+      requestPage(pageId);
+    }
+  }, [pageId, storedPage, requestPage]);
+
+  const handleRemove = async () => {
+    const { currentPage, updatePage } = usePageStore.getState();
+    if (!sourcePageId || currentPage?.id !== sourcePageId) return;
+
+    setRemoving(true);
+    try {
+      await updatePage(sourcePageId, {
+        content: removePageReferences(currentPage.content, pageId),
+      });
+      toast.success('Link removed');
+    } catch (error) {
+      console.error('Error removing link:', error);
+      toast.error('Failed to remove link');
+      setRemoving(false);
     }
-  }, [pageId]);
-  
-  if (loading) {
+  };
+
+  const page = storedPage ?? (typeof target === 'object' ? target : null);
+
+  if (!page && !target) {
     return <span className="text-slate-400">Loading link...</span>;
   }
-  
-  if (error || !page) {
-    return <span className="text-red-500">Failed to load link</span>;
+
+  if (target === 'unavailable' && !page) {
+    return (
+      <span className="text-slate-400" title="This page isn't saved on this device">
+        Link unavailable offline
+      </span>
+    );
   }
-  
+
+  if (!page) {
+    return (
+      <span className="inline-flex items-center gap-1 rounded bg-red-50 px-1 text-red-600">
+        <span className="line-through">Page not found</span>
+        {sourcePageId && (
+          <button
+            onClick={handleRemove}
+            disabled={removing}
+            className="p-0.5 rounded hover:bg-red-100 disabled:opacity-50"
+            title="Remove this link"
+          >
+            <Unlink size={12} />
+          </button>
+        )}
+      </span>
+    );
+  }
+
   return (
     <Link
       to={`/page/${page.id}`}
-      className={`inline-flex items-center gap-1 text-blue-600 hover:underline ${className}`}
+      className={`inline-flex items-center gap-1 text-blue-600 hover:underline ${
+        page.deleted_at ? 'line-through opacity-60' : ''
+      } ${className}`}
+      title={page.deleted_at ? 'This page is in the trash' : undefined}
     >
       {page.title} <ExternalLink size={14} className="inline" />
     </Link>
   );
 };
 
-export default PageLink;
\ No newline at end of file
+export default PageLink;
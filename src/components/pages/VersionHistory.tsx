@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useVersionStore } from '../../store/versionStore';
+import { diffBlocks, getBlockText, BlockDiffEntry } from '../../lib/blocks';
+import { formatDateTime, formatShortDateTime } from '../../lib/utils';
+import { Page, PageVersion, PageVersionSource } from '../../types';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+
+const changeStyles: Record<BlockDiffEntry['change'], string> = {
+  unchanged: 'border-slate-200 bg-white',
+  changed: 'border-amber-300 bg-amber-50',
+  added: 'border-blue-300 bg-blue-50',
+  removed: 'border-violet-300 bg-violet-50',
+};
+
+// In the history view `before` is the version and `after` the current page
+const changeLabels: Record<BlockDiffEntry['change'], string> = {
+  unchanged: 'Unchanged',
+  changed: 'Edited since',
+  added: 'Added since',
+  removed: 'Removed since',
+};
+
+const sourceLabels: Record<PageVersionSource, string> = {
+  manual: 'Saved',
+  autosave: 'Auto-saved',
+  restore: 'Restored',
+};
+
+const BlockPreview: React.FC<{ text: string }> = ({ text }) => (
+  <p className="text-sm text-slate-700 break-words line-clamp-3">
+    {text || <span className="italic text-slate-400">Empty block</span>}
+  </p>
+);
+
+type VersionHistoryProps = {
+  page: Page;
+  onClose: () => void;
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ page, onClose }) => {
+  const {
+    versions,
+    loading,
+    restoring,
+    error,
+    fetchVersions,
+    loadVersion,
+    restoreVersion,
+  } = useVersionStore();
+  const [selected, setSelected] = useState<PageVersion | null>(null);
+  const [loadingVersion, setLoadingVersion] = useState(false);
+
+  useEffect(() => {
+    fetchVersions(page.id);
+  }, [page.id, fetchVersions]);
+
+  const diff = useMemo(
+    () => (selected ? diffBlocks(selected.content, page.content) : []),
+    [selected, page.content]
+  );
+  const changedCount = diff.filter((e) => e.change !== 'unchanged').length;
+
+  const handleSelect = async (version: PageVersion) => {
+    setLoadingVersion(true);
+    try {
+      setSelected(await loadVersion(version.id));
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to load version'
+      );
+    } finally {
+      setLoadingVersion(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      await restoreVersion(selected.id);
+      toast.success(
+        `Restored the version from ${formatDateTime(selected.created_at)}`
+      );
+      onClose();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to restore version'
+      );
+    }
+  };
+
+  const restoredFrom = (version: PageVersion) =>
+    versions.find((v) => v.id === version.restored_from);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-4xl h-[85vh] flex flex-col shadow-xl">
+        <div className="p-5 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <History size={20} />
+            Version history
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-slate-100 text-slate-500"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <div className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-slate-200 p-2">
+            {loading && versions.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-slate-500 px-3 py-2">
+                No versions yet. A version is kept each time the page is saved.
+              </p>
+            ) : (
+              versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => handleSelect(version)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                    selected?.id === version.id
+                      ? 'bg-blue-50 text-blue-800'
+                      : 'hover:bg-slate-100'
+                  }`}
+                >
+                  <span className="block font-medium">
+                    {formatDateTime(version.created_at)}
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {sourceLabels[version.source]}
+                    {version.source === 'restore' &&
+                      restoredFrom(version) &&
+                      ` from ${formatShortDateTime(restoredFrom(version)!.created_at)}`}
+                    {version.title !== page.title && ` · "${version.title}"`}
+                  </span>
+                </button>
+              ))
+            )}
+            {error && <p className="text-sm text-red-600 px-3 py-2">{error}</p>}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-5 space-y-2">
+            {loadingVersion ? (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            ) : !selected ? (
+              <p className="text-sm text-slate-500 text-center py-6">
+                Pick a version to compare it with the current page.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600 mb-3">
+                  {changedCount === 0
+                    ? 'This version matches the current page.'
+                    : changedCount === 1
+                      ? '1 block differs from the current page.'
+                      : `${changedCount} blocks differ from the current page.`}
+                </p>
+                {diff.map((entry) => (
+                  <div
+                    key={entry.key}
+                    className={`rounded-md border p-3 ${changeStyles[entry.change]}`}
+                  >
+                    <span className="text-[11px] uppercase tracking-wider text-slate-500">
+                      {changeLabels[entry.change]}
+                    </span>
+                    {entry.change === 'changed' ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-1">
+                        <div>
+                          <span className="text-xs text-violet-700">
+                            This version
+                          </span>
+                          <BlockPreview text={getBlockText(entry.before!)} />
+                        </div>
+                        <div>
+                          <span className="text-xs text-blue-700">Current</span>
+                          <BlockPreview text={getBlockText(entry.after!)} />
+                        </div>
+                      </div>
+                    ) : (
+                      <BlockPreview
+                        text={getBlockText((entry.after ?? entry.before)!)}
+                      />
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose} disabled={restoring}>
+            Close
+          </Button>
+          <Button
+            className="flex items-center gap-2"
+            onClick={handleRestore}
+            disabled={!selected || restoring || changedCount === 0}
+          >
+            {restoring ? <Spinner size="sm" /> : <RotateCcw size={16} />}
+            <span>Restore this version</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,103 @@
+import React, { useEffect } from 'react';
+import { HardDrive, ShieldCheck, Trash2 } from 'lucide-react';
+import { useStorageStore } from '../../store/storageStore';
+import { formatBytes } from '../../lib/utils';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+
+const StorageUsage: React.FC = () => {
+  const {
+    estimate,
+    cachedPages,
+    loading,
+    clearing,
+    error,
+    fetchUsage,
+    persistStorage,
+    clearLocalCache,
+  } = useStorageStore();
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const share =
+    estimate && estimate.quota > 0
+      ? Math.min(estimate.usage / estimate.quota, 1)
+      : 0;
+
+  return (
+    <div className="space-y-6">
+      {loading && !estimate ? (
+        <div className="flex justify-center">
+          <Spinner />
+        </div>
+      ) : estimate ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-slate-600">
+            <span className="flex items-center gap-2">
+              <HardDrive size={16} className="text-slate-500" />
+              {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}{' '}
+              used
+            </span>
+            <span>
+              {cachedPages === 1
+                ? '1 page cached'
+                : `${cachedPages} pages cached`}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className={`h-full ${share > 0.8 ? 'bg-red-500' : 'bg-blue-600'}`}
+              style={{ width: `${share * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-600">
+          This browser doesn't report how much space HasNote uses.
+        </p>
+      )}
+
+      {estimate && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-slate-600">
+            {estimate.persisted
+              ? 'The browser keeps this data even when space runs low.'
+              : 'The browser may clear this data when space runs low. Unsynced changes would be lost.'}
+          </p>
+          {!estimate.persisted && (
+            <Button
+              variant="outline"
+              className="flex items-center gap-2 shrink-0"
+              onClick={persistStorage}
+            >
+              <ShieldCheck size={16} />
+              <span>Keep data</span>
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="border-t border-slate-200 pt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <p className="text-sm text-slate-600">
+          Free up space by dropping cached page content. Pages load again from
+          the server when opened; drafts and unsynced changes are kept.
+        </p>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2 shrink-0"
+          onClick={clearLocalCache}
+          disabled={clearing}
+        >
+          {clearing ? <Spinner size="sm" /> : <Trash2 size={16} />}
+          <span>Clear local cache</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageUsage;
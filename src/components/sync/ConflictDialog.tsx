@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge, Monitor, Cloud } from 'lucide-react';
+import { usePageStore, ConflictResolution } from '../../store/pageStore';
+import { diffBlocks, getBlockText, BlockDiffEntry } from '../../lib/blocks';
+import { formatDateTime } from '../../lib/utils';
+import { Page } from '../../types';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+
+const changeStyles: Record<BlockDiffEntry['change'], string> = {
+  unchanged: 'border-slate-200 bg-white',
+  changed: 'border-amber-300 bg-amber-50',
+  added: 'border-blue-300 bg-blue-50',
+  removed: 'border-violet-300 bg-violet-50',
+};
+
+// In the conflict view `before` is the server copy and `after` is ours
+const changeLabels: Record<BlockDiffEntry['change'], string> = {
+  unchanged: 'Same on both',
+  changed: 'Edited on both',
+  added: 'Only in yours',
+  removed: 'Only in theirs',
+};
+
+const BlockPreview: React.FC<{ text: string }> = ({ text }) => (
+  <p className="text-sm text-slate-700 break-words line-clamp-3">
+    {text || <span className="italic text-slate-400">Empty block</span>}
+  </p>
+);
+
+const ConflictDialog: React.FC = () => {
+  const { conflicts, pages, fetchConflicts, resolveConflict } = usePageStore();
+  const [resolving, setResolving] = useState<ConflictResolution | null>(null);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, [fetchConflicts]);
+
+  const conflict = conflicts[0];
+  const server = conflict?.conflict?.server ?? null;
+  const local: Page | undefined = conflict
+    ? (pages.find((p) => p.id === conflict.data.id) ?? conflict.data)
+    : undefined;
+
+  const diff = useMemo(
+    () => (local ? diffBlocks(server?.content, local.content) : []),
+    [local, server]
+  );
+
+  if (!conflict || !local) return null;
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setResolving(resolution);
+    try {
+      await resolveConflict(conflict, resolution);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col shadow-xl">
+        <div className="p-5 border-b border-slate-200">
+          <h2 className="text-xl font-bold flex items-center gap-2 text-amber-700">
+            <AlertTriangle size={20} />
+            Sync conflict
+          </h2>
+          <p className="text-sm text-slate-600 mt-1">
+            "{local.title}" was changed on another device while you were editing
+            it.
+            {server
+              ? ` Their version was saved ${formatDateTime(server.updated_at)}.`
+              : ' It has since been deleted there.'}
+          </p>
+          {conflicts.length > 1 && (
+            <p className="text-xs text-slate-500 mt-1">
+              {conflicts.length - 1} more conflict
+              {conflicts.length > 2 ? 's' : ''} waiting after this one.
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+          {server && server.title !== local.title && (
+            <div className="grid grid-cols-2 gap-3 text-sm mb-3">
+              <div className="p-2 rounded border border-blue-300 bg-blue-50">
+                <span className="text-xs text-blue-700">Your title</span>
+                <p className="font-medium">{local.title}</p>
+              </div>
+              <div className="p-2 rounded border border-violet-300 bg-violet-50">
+                <span className="text-xs text-violet-700">Their title</span>
+                <p className="font-medium">{server.title}</p>
+              </div>
+            </div>
+          )}
+
+          {diff.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6">
+              Neither version has any content blocks.
+            </p>
+          ) : (
+            diff.map((entry) => (
+              <div
+                key={entry.key}
+                className={`rounded-md border p-3 ${changeStyles[entry.change]}`}
+              >
+                <span className="text-[11px] uppercase tracking-wider text-slate-500">
+                  {changeLabels[entry.change]}
+                </span>
+                {entry.change === 'changed' ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-1">
+                    <div>
+                      <span className="text-xs text-blue-700">Yours</span>
+                      <BlockPreview text={getBlockText(entry.after!)} />
+                    </div>
+                    <div>
+                      <span className="text-xs text-violet-700">Theirs</span>
+                      <BlockPreview text={getBlockText(entry.before!)} />
+                    </div>
+                  </div>
+                ) : (
+                  <BlockPreview
+                    text={getBlockText((entry.after ?? entry.before)!)}
+                  />
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex flex-col sm:flex-row gap-2 sm:justify-end">
+          <Button
+            variant="outline"
+            className="flex items-center justify-center gap-2"
+            onClick={() => handleResolve('theirs')}
+            disabled={!!resolving}
+          >
+            {resolving === 'theirs' ? (
+              <Spinner size="sm" />
+            ) : (
+              <Cloud size={16} />
+            )}
+            <span>Keep theirs</span>
+          </Button>
+          <Button
+            variant="outline"
+            className="flex items-center justify-center gap-2"
+            onClick={() => handleResolve('merge')}
+            disabled={!!resolving}
+            title="Keep every block from both versions, preferring yours where a block was edited on both"
+          >
+            {resolving === 'merge' ? (
+              <Spinner size="sm" />
+            ) : (
+              <GitMerge size={16} />
+            )}
+            <span>Merge blocks</span>
+          </Button>
+          <Button
+            className="flex items-center justify-center gap-2"
+            onClick={() => handleResolve('mine')}
+            disabled={!!resolving}
+          >
+            {resolving === 'mine' ? (
+              <Spinner size="sm" />
+            ) : (
+              <Monitor size={16} />
+            )}
+            <span>Keep mine</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
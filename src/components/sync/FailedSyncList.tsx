@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertOctagon,
+  RotateCcw,
+  Pencil,
+  Trash2,
+  CheckCircle2,
+} from 'lucide-react';
+import { useSyncStore } from '../../store/syncStore';
+import { DeadLetterItem } from '../../lib/db';
+import { formatDateTime } from '../../lib/utils';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+
+const describeItem = (item: DeadLetterItem) => {
+  const target =
+    item.data?.title ??
+    item.data?.text ??
+    item.data?.preference_key ??
+    item.data?.id;
+  return `${item.type} ${item.table}${target ? ` · ${target}` : ''}`;
+};
+
+const FailedSyncList: React.FC = () => {
+  const {
+    deadLetters,
+    loading,
+    error,
+    fetchDeadLetters,
+    retryDeadLetter,
+    discardDeadLetter,
+  } = useSyncStore();
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editData, setEditData] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const handleStartEdit = (item: DeadLetterItem) => {
+    setEditingId(item.id!);
+    setEditData(JSON.stringify(item.data, null, 2));
+    setEditError(null);
+  };
+
+  const handleRetryEdited = async (id: number) => {
+    try {
+      const data = JSON.parse(editData);
+      await retryDeadLetter(id, data);
+      setEditingId(null);
+    } catch {
+      setEditError('The data is not valid JSON.');
+    }
+  };
+
+  const handleDiscard = async (id: number) => {
+    if (confirm('Discard this change? It will never reach the server.')) {
+      await discardDeadLetter(id);
+    }
+  };
+
+  if (loading && !deadLetters.length) {
+    return <Spinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Changes that kept failing to reach the server are parked here so they
+        don't block newer edits.
+      </p>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {deadLetters.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 rounded-md p-3">
+          <CheckCircle2 size={16} />
+          <span>No failed changes.</span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {deadLetters.map((item) => (
+            <div key={item.id} className="p-3 border rounded space-y-2">
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate capitalize flex items-center gap-2">
+                    <AlertOctagon size={14} className="text-red-500 shrink-0" />
+                    {describeItem(item)}
+                  </div>
+                  <div className="text-sm text-red-600 mt-1 break-words">
+                    {item.lastError}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    Queued {formatDateTime(item.timestamp)} · gave up{' '}
+                    {formatDateTime(item.failedAt)} after {item.attempts}{' '}
+                    attempts
+                  </div>
+                </div>
+
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    onClick={() => retryDeadLetter(item.id!)}
+                    variant="outline"
+                    size="sm"
+                    aria-label="Retry"
+                    title="Retry"
+                  >
+                    <RotateCcw size={16} />
+                  </Button>
+                  <Button
+                    onClick={() => handleStartEdit(item)}
+                    variant="outline"
+                    size="sm"
+                    aria-label="Edit"
+                    title="Edit and retry"
+                  >
+                    <Pencil size={16} />
+                  </Button>
+                  <Button
+                    onClick={() => handleDiscard(item.id!)}
+                    variant="outline"
+                    size="sm"
+                    aria-label="Discard"
+                    title="Discard"
+                  >
+                    <Trash2 size={16} className="text-red-600" />
+                  </Button>
+                </div>
+              </div>
+
+              {editingId === item.id && (
+                <div className="border-t pt-2">
+                  <textarea
+                    value={editData}
+                    onChange={(e) => setEditData(e.target.value)}
+                    className="w-full min-h-[160px] p-2 font-mono text-xs border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  {editError && (
+                    <p className="text-sm text-red-600 mt-1">{editError}</p>
+                  )}
+                  <div className="flex justify-end gap-2 mt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingId(null)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRetryEdited(item.id!)}
+                    >
+                      Save and retry
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FailedSyncList;
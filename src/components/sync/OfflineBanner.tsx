@@ -0,0 +1,21 @@
+import React from 'react';
+import { CloudOff } from 'lucide-react';
+import { useSyncStore } from '../../store/syncStore';
+
+const OfflineBanner: React.FC = () => {
+  const online = useSyncStore((state) => state.online);
+
+  if (online) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-slate-800 text-white">
+      <CloudOff size={16} className="shrink-0" />
+      <span>
+        You're offline. Changes are saved on this device and will sync when you
+        reconnect.
+      </span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,36 @@
+import React from 'react';
+import {
+  useSyncStore,
+  selectPageSyncStatus,
+  SyncStatus,
+} from '../../store/syncStore';
+import { syncStatusStyles } from './syncStatusStyles';
+
+const labels: Record<SyncStatus, string> = {
+  synced: 'Saved',
+  pending: 'Waiting to sync',
+  syncing: 'Syncing…',
+  offline: 'Saved on this device',
+  error: 'Not synced',
+};
+
+const PageSyncBadge: React.FC<{ pageId: string }> = ({ pageId }) => {
+  const status = useSyncStore(selectPageSyncStatus(pageId));
+  const { icon: Icon, className } = syncStatusStyles[status];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ${className}`}
+      title={
+        status === 'error'
+          ? 'See Settings to retry or resolve this change'
+          : undefined
+      }
+    >
+      <Icon size={12} className={status === 'syncing' ? 'animate-spin' : ''} />
+      {labels[status]}
+    </span>
+  );
+};
+
+export default PageSyncBadge;
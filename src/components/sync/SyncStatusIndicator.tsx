@@ -0,0 +1,44 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  useSyncStore,
+  selectSyncStatus,
+  SyncStatus,
+} from '../../store/syncStore';
+import { syncStatusStyles } from './syncStatusStyles';
+
+const SyncStatusIndicator: React.FC = () => {
+  const status = useSyncStore(selectSyncStatus);
+  const pendingCount = useSyncStore((state) => state.pendingCount);
+  const problemCount = useSyncStore(
+    (state) => state.failingCount + state.deadLetteredCount
+  );
+
+  const labels: Record<SyncStatus, string> = {
+    synced: 'All changes synced',
+    pending: `${pendingCount} change${pendingCount === 1 ? '' : 's'} pending`,
+    syncing: `Syncing ${pendingCount} change${pendingCount === 1 ? '' : 's'}…`,
+    offline: pendingCount
+      ? `Offline · ${pendingCount} change${pendingCount === 1 ? '' : 's'} saved locally`
+      : 'Offline',
+    error: `${problemCount} change${problemCount === 1 ? '' : 's'} failed to sync`,
+  };
+
+  const { icon: Icon, className } = syncStatusStyles[status];
+
+  return (
+    <Link
+      to="/settings"
+      className="flex items-center px-3 py-2 text-xs rounded-md hover:bg-slate-100 transition-colors"
+      title="Sync status"
+    >
+      <Icon
+        size={14}
+        className={`mr-2 shrink-0 ${className} ${status === 'syncing' ? 'animate-spin' : ''}`}
+      />
+      <span className="truncate text-slate-600">{labels[status]}</span>
+    </Link>
+  );
+};
+
+export default SyncStatusIndicator;
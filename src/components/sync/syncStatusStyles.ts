@@ -0,0 +1,21 @@
+import {
+  AlertTriangle,
+  CloudOff,
+  CloudUpload,
+  CheckCircle2,
+  RefreshCw,
+  LucideIcon,
+} from 'lucide-react';
+import { SyncStatus } from '../../store/syncStore';
+
+// Shared by the app-wide indicator and the per-page badge
+export const syncStatusStyles: Record<
+  SyncStatus,
+  { icon: LucideIcon; className: string }
+> = {
+  synced: { icon: CheckCircle2, className: 'text-green-600' },
+  pending: { icon: CloudUpload, className: 'text-amber-600' },
+  syncing: { icon: RefreshCw, className: 'text-blue-600' },
+  offline: { icon: CloudOff, className: 'text-slate-500' },
+  error: { icon: AlertTriangle, className: 'text-red-600' },
+};
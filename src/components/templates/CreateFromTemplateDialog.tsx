@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTemplateStore } from '../../store/templateStore';
+import {
+  countTemplatePages,
+  fillVariables,
+  findCustomVariables,
+  getBuiltInValues,
+} from '../../lib/templates';
+import { PageTemplate } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Spinner from '../ui/Spinner';
+
+type CreateFromTemplateDialogProps = {
+  template: PageTemplate;
+  parentId?: string | null;
+  onClose: () => void;
+  onCreated: (pageId: string) => void;
+};
+
+const CreateFromTemplateDialog: React.FC<CreateFromTemplateDialogProps> = ({
+  template,
+  parentId = null,
+  onClose,
+  onCreated,
+}) => {
+  const { createFromTemplate } = useTemplateStore();
+  const variables = useMemo(
+    () => findCustomVariables(template.page),
+    [template]
+  );
+  // The template's own title may use date variables, e.g. "Standup {{date}}"
+  const [title, setTitle] = useState(() =>
+    fillVariables(template.page.title, getBuiltInValues(template.name))
+  );
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [creating, setCreating] = useState(false);
+
+  const pageCount = countTemplatePages(template.page);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    const pageId = await createFromTemplate(
+      template.id,
+      title.trim() || 'Untitled',
+      values,
+      parentId
+    );
+    setCreating(false);
+
+    if (pageId) {
+      toast.success(
+        pageCount === 1
+          ? `Created a page from "${template.name}"`
+          : `Created ${pageCount} pages from "${template.name}"`
+      );
+      onCreated(pageId);
+    } else {
+      toast.error(
+        useTemplateStore.getState().error ||
+          'Failed to create page from template'
+      );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-lg p-5 w-full max-w-md max-h-[85vh] overflow-y-auto shadow-xl"
+      >
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <LayoutTemplate size={20} />
+          New page from "{template.name}"
+        </h2>
+        <p className="text-sm text-slate-500 mb-4">
+          {pageCount > 1 &&
+            `Includes ${pageCount - 1} sub-page${pageCount > 2 ? 's' : ''}. `}
+          {
+            '{{title}}, {{date}}, {{time}} and {{weekday}} are filled in automatically.'
+          }
+        </p>
+
+        <div className="space-y-3 mb-5">
+          <label className="block">
+            <span className="text-sm font-medium text-slate-700">Title</span>
+            <Input
+              autoFocus
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1"
+            />
+          </label>
+
+          {variables.map((name) => (
+            <label key={name} className="block">
+              <span className="text-sm font-medium text-slate-700">{name}</span>
+              <Input
+                value={values[name] ?? ''}
+                placeholder={`Value for {{${name}}}`}
+                onChange={(e) =>
+                  setValues({ ...values, [name]: e.target.value })
+                }
+                className="mt-1"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3 justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={creating}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            className="flex items-center gap-2"
+            disabled={creating}
+          >
+            {creating && <Spinner size="sm" />}
+            <span>Create</span>
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CreateFromTemplateDialog;
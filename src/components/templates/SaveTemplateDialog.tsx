@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../../store/pageStore';
+import { useTemplateStore } from '../../store/templateStore';
+import { getDescendantIds } from '../../lib/pageTree';
+import { Page } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Spinner from '../ui/Spinner';
+
+type SaveTemplateDialogProps = {
+  page: Page;
+  onClose: () => void;
+};
+
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  page,
+  onClose,
+}) => {
+  const { pages } = usePageStore();
+  const { saveAsTemplate } = useTemplateStore();
+  const [name, setName] = useState(page.title);
+  const [saving, setSaving] = useState(false);
+
+  const subPageCount = getDescendantIds(pages, page.id).length;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await saveAsTemplate(page.id, name.trim());
+      toast.success(`Saved "${name.trim()}" as a template`);
+      onClose();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save template'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSave}
+        className="bg-white rounded-lg p-5 w-full max-w-md shadow-xl"
+      >
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <LayoutTemplate size={20} />
+          Save as template
+        </h2>
+        <p className="text-sm text-slate-500 mb-4">
+          {page.type === 'todo' ? 'Its to-dos' : 'Its content and to-dos'}
+          {subPageCount > 0 &&
+            `, and its ${subPageCount} sub-page${subPageCount > 1 ? 's' : ''},`}{' '}
+          are copied into the template. Write variables like{' '}
+          <code>{'{{date}}'}</code> or <code>{'{{client}}'}</code> in the page
+          to have them filled in when a page is created from it.
+        </p>
+
+        <Input
+          autoFocus
+          value={name}
+          placeholder="Template name"
+          onChange={(e) => setName(e.target.value)}
+          className="mb-5"
+        />
+
+        <div className="flex gap-3 justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            className="flex items-center gap-2"
+            disabled={saving || !name.trim()}
+          >
+            {saving && <Spinner size="sm" />}
+            <span>Save template</span>
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { useTemplateStore } from '../../store/templateStore';
+import { countTemplatePages, findCustomVariables } from '../../lib/templates';
+import { PageTemplate } from '../../types';
+import Spinner from '../ui/Spinner';
+import PageIcon from '../pages/PageIcon';
+
+type TemplateGalleryProps = {
+  onSelect: (template: PageTemplate) => void;
+  className?: string;
+};
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  onSelect,
+  className = 'grid grid-cols-1 sm:grid-cols-2 gap-2',
+}) => {
+  const { templates, loading, error, fetchTemplates, deleteTemplate } =
+    useTemplateStore();
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleDelete = (template: PageTemplate) => {
+    if (confirm(`Delete the template "${template.name}"?`)) {
+      deleteTemplate(template.id);
+    }
+  };
+
+  if (loading && templates.length === 0) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  if (templates.length === 0) {
+    return (
+      <div className="text-sm text-slate-500">
+        <p>
+          No templates yet. Use "Save as template" on any page to reuse its
+          structure.
+        </p>
+        {error && <p className="text-red-600 mt-1">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className={className}>
+        {templates.map((template) => {
+          const pageCount = countTemplatePages(template.page);
+          const variables = findCustomVariables(template.page);
+
+          return (
+            <div
+              key={template.id}
+              className="group flex items-start gap-2 p-3 rounded-lg border border-slate-200 hover:border-blue-300 hover:bg-blue-50/40 cursor-pointer"
+              onClick={() => onSelect(template)}
+            >
+              <span className="mt-0.5">
+                <PageIcon type={template.page.type} size={18} />
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">
+                  {template.name}
+                </p>
+                <p className="text-xs text-slate-500 truncate">
+                  {pageCount === 1 ? '1 page' : `${pageCount} pages`}
+                  {variables.length > 0 &&
+                    ` · asks for ${variables.join(', ')}`}
+                </p>
+              </div>
+              <button
+                className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-slate-100 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(template);
+                }}
+                title="Delete template"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default TemplateGallery;
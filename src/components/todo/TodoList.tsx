@@ -19,36 +19,39 @@ import {
   List,
   ListOrdered,
 } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
 import { TodoItem } from '../../types'; // Ensure this path is correct
 import { formatShortDateTime } from '../../lib/utils'; // Ensure this path is correct
 import Spinner from '../ui/Spinner'; // Ensure this path is correct
-import { getDB, addToSyncQueue } from '../../lib/db'; // Ensure this path is correct
-import toast from 'react-hot-toast';
+import { useTodoStore } from '../../store/todoStore';
 
 type TodoListProps = {
   pageId: string;
 };
 
-type TodoHistory = {
-  todos: TodoItem[];
-  timestamp: number;
-};
-
 type SortDirection = 'asc' | 'desc';
 
 const TodoList: React.FC<TodoListProps> = ({ pageId }) => {
-  const [todos, setTodos] = useState<TodoItem[]>([]);
+  const {
+    todos,
+    history,
+    loading,
+    error: storeError,
+    fetchTodos,
+    createTodo,
+    updateTodo,
+    toggleTodo,
+    deleteTodo,
+    undo,
+  } = useTodoStore();
   const [newTodoText, setNewTodoText] = useState('');
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const error = validationError ?? storeError;
 
   const [editingTodoId, setEditingTodoId] = useState<string | null>(null);
   const [editText, setEditText] = useState('');
   const [editNotesText, setEditNotesText] = useState(''); // New state for notes textarea
 
-  const [history, setHistory] = useState<TodoHistory[]>([]);
-  const [canUndo, setCanUndo] = useState(false);
+  const canUndo = history.length > 1;
 
   const [expandedTodos, setExpandedTodos] = useState<Set<string>>(new Set());
   const [fullNotesTodos, setFullNotesTodos] = useState<Set<string>>(new Set());
@@ -78,68 +81,20 @@ const TodoList: React.FC<TodoListProps> = ({ pageId }) => {
     return typeof content === 'string' ? content : '';
   };
 
-  const updateHistory = (updatedTodos: TodoItem[]) => {
-    setHistory((prevHistory) => [
-      ...prevHistory,
-      { todos: JSON.parse(JSON.stringify(updatedTodos)), timestamp: Date.now() },
-    ]);
-  };
-
-  useEffect(() => {
-    if (todos.length > 0 && history.length === 0) {
-      setHistory([{ todos: JSON.parse(JSON.stringify(todos)), timestamp: Date.now() }]);
-    }
-  }, [todos, history.length]);
-
   useEffect(() => {
     if (editingTodoId && editInputRef.current) {
       editInputRef.current.focus();
     }
   }, [editingTodoId]);
 
-  const fetchTodos = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const db = await getDB();
-      const cachedTodos = await db.getAllFromIndex('todos', 'by-page', pageId);
-
-      if (cachedTodos.length > 0) {
-        setTodos(cachedTodos as TodoItem[]);
-        setLoading(false); // Show cached data quickly
-      }
-
-      const { data, error: supabaseError } = await supabase
-        .from('todo_items')
-        .select('*')
-        .eq('page_id', pageId)
-        .order(sortBy, { ascending: sortDirection === 'asc' });
-
-      if (supabaseError) throw supabaseError;
-
-      const fetchedTodos = data as TodoItem[];
-      setTodos(fetchedTodos);
-
-      const tx = db.transaction('todos', 'readwrite');
-      await Promise.all([
-        ...fetchedTodos.map((todo) => tx.store.put(todo)),
-        tx.done,
-      ]);
-    } catch (err: any) {
-      console.error('Error fetching todos:', err);
-      setError(err.message || 'Failed to fetch todos');
-    } finally {
-      setLoading(false);
-    }
-  }, [pageId, sortBy, sortDirection]);
+  const loadTodos = useCallback(() => {
+    setValidationError(null);
+    fetchTodos(pageId);
+  }, [pageId, fetchTodos]);
 
   useEffect(() => {
-    fetchTodos();
-  }, [fetchTodos]);
-
-  useEffect(() => {
-    setCanUndo(history.length > 1);
-  }, [history]);
+    loadTodos();
+  }, [loadTodos]);
 
   // Check if "Show full notes" button is needed
   useEffect(() => {
@@ -190,81 +145,13 @@ const TodoList: React.FC<TodoListProps> = ({ pageId }) => {
     e.preventDefault();
     if (!newTodoText.trim()) return;
 
-    const optimisticTodo: TodoItem = {
-      id: crypto.randomUUID(),
-      text: newTodoText.trim(),
-      completed: false,
-      page_id: pageId,
-      content: '', // Initialize notes as empty string
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    const previousTodos = todos;
-    setTodos((prev) => [optimisticTodo, ...prev]);
-    updateHistory([optimisticTodo, ...previousTodos]);
     setNewTodoText('');
     setCurrentPage(1); // Reset to first page
-
-    try {
-      const db = await getDB();
-      await db.add('todos', optimisticTodo);
-      await addToSyncQueue('create', 'todos', optimisticTodo);
-
-      if (navigator.onLine) {
-        const { data, error: supabaseError } = await supabase
-          .from('todo_items')
-          .insert(optimisticTodo)
-          .select()
-          .single();
-
-        if (supabaseError) throw supabaseError;
-        // Optionally update local todo with data from supabase if it differs (e.g., db-generated fields)
-        setTodos(prev => prev.map(t => t.id === optimisticTodo.id ? data as TodoItem : t));
-      }
-      toast.success('Todo Created!');
-    } catch (err: any) {
-      console.error('Error creating todo:', err);
-      setError(err.message || 'Failed to create todo');
-      setTodos(previousTodos); // Rollback optimistic update
-      updateHistory(previousTodos);
-    }
+    await createTodo(newTodoText.trim());
   };
 
   const handleToggleComplete = async (todoId: string) => {
-    const todoToUpdate = todos.find((todo) => todo.id === todoId);
-    if (!todoToUpdate) return;
-
-    const updatedTodo = {
-      ...todoToUpdate,
-      completed: !todoToUpdate.completed,
-      updated_at: new Date().toISOString(),
-    };
-
-    const previousTodos = todos;
-    setTodos(todos.map((todo) => (todo.id === todoId ? updatedTodo : todo)));
-    updateHistory(todos.map((todo) => (todo.id === todoId ? updatedTodo : todo)));
-
-
-    try {
-      const db = await getDB();
-      await db.put('todos', updatedTodo);
-      await addToSyncQueue('update', 'todos', updatedTodo);
-
-      if (navigator.onLine) {
-        const { error: supabaseError } = await supabase
-          .from('todo_items')
-          .update({ completed: updatedTodo.completed, updated_at: updatedTodo.updated_at })
-          .eq('id', todoId);
-        if (supabaseError) throw supabaseError;
-      }
-      toast.success('Changes saved successfully!');
-    } catch (err: any) {
-      console.error('Error updating todo:', err);
-      setError(err.message || 'Failed to update todo');
-      setTodos(previousTodos); // Rollback
-      updateHistory(previousTodos);
-    }
+    await toggleTodo(todoId);
   };
 
   const handleStartEdit = (todo: TodoItem) => {
@@ -291,124 +178,28 @@ const TodoList: React.FC<TodoListProps> = ({ pageId }) => {
       return;
     }
     if (!newText) { // Do not allow empty todo text
-      setError("Task text cannot be empty.");
+      setValidationError("Task text cannot be empty.");
       if (editInputRef.current) editInputRef.current.focus();
       return;
     }
-    setError(null);
-
-
-    const updatedTodo: TodoItem = {
-      ...originalTodo,
-      text: newText,
-      content: newNotes, // Save notes
-      updated_at: new Date().toISOString(),
-    };
+    setValidationError(null);
 
-    const previousTodos = todos;
-    setTodos(todos.map((todo) => (todo.id === todoId ? updatedTodo : todo)));
-    updateHistory(todos.map((todo) => (todo.id === todoId ? updatedTodo : todo)));
     handleCancelEdit();
-
-    try {
-      const db = await getDB();
-      await db.put('todos', updatedTodo);
-      await addToSyncQueue('update', 'todos', updatedTodo);
-
-      if (navigator.onLine) {
-        const { error: supabaseError } = await supabase
-          .from('todo_items')
-          .update({ text: updatedTodo.text, content: updatedTodo.content, updated_at: updatedTodo.updated_at })
-          .eq('id', todoId);
-        if (supabaseError) throw supabaseError;
-      }
-      toast.success('Changes saved successfully!');
-    } catch (err: any) {
-      console.error('Error updating todo text/notes:', err);
-      setError(err.message || 'Failed to update todo');
-      setTodos(previousTodos); // Rollback
-      updateHistory(previousTodos);
-    }
+    await updateTodo(todoId, { text: newText, content: newNotes });
   };
 
   const handleDeleteTodo = async (todoId: string) => {
-    const previousTodos = todos;
-    setTodos(todos.filter((todo) => todo.id !== todoId));
-    updateHistory(todos.filter((todo) => todo.id !== todoId));
-
     // Adjust pagination if needed
     const newTotalItems = todos.length - 1;
     if (newTotalItems % itemsPerPage === 0 && currentPage > newTotalItems / itemsPerPage && currentPage > 1) {
       setCurrentPage(prev => prev - 1);
     }
 
-
-    try {
-      const db = await getDB();
-      await db.delete('todos', todoId);
-      await addToSyncQueue('delete', 'todos', { id: todoId });
-      toast.error('Todo Deleted!');
-
-      if (navigator.onLine) {
-        const { error: supabaseError } = await supabase.from('todo_items').delete().eq('id', todoId);
-        if (supabaseError) throw supabaseError;
-      }
-    } catch (err: any) {
-      console.error('Error deleting todo:', err);
-      setError(err.message || 'Failed to delete todo');
-      setTodos(previousTodos); // Rollback
-      updateHistory(previousTodos);
-    }
+    await deleteTodo(todoId);
   };
 
   const handleUndo = async () => {
-    if (history.length <= 1) return;
-
-    const newHistory = [...history];
-    newHistory.pop(); // Remove current state
-    const previousState = newHistory[newHistory.length - 1];
-
-    setHistory(newHistory);
-    setTodos(previousState.todos); // Optimistic UI update
-
-    try {
-      const db = await getDB();
-      const tx = db.transaction('todos', 'readwrite');
-      // First, clear existing todos for this pageId from IDB to handle deletions correctly
-      const existingPageTodos = await db.getAllFromIndex('todos', 'by-page', pageId);
-      for (const et of existingPageTodos) {
-        if (!previousState.todos.find(pt => pt.id === et.id)) {
-          await tx.store.delete(et.id);
-        }
-      }
-      // Then, put all todos from the undone state
-      for (const todo of previousState.todos) {
-        if (todo.page_id === pageId) { // Ensure we only affect current page's todos
-          await tx.store.put(todo);
-        }
-      }
-      await tx.done;
-
-      // Add to sync queue (could be complex, might need to sync entire state or diffs)
-      // For simplicity, just re-fetch or mark for full sync
-      // @ts-ignore
-      await addToSyncQueue('replace_all_for_page', 'todos', { page_id: pageId, todos: previousState.todos });
-
-
-      if (navigator.onLine) {
-        // This could be a batch update to Supabase to reflect the undone state.
-        // For simplicity here, we can trigger a re-fetch, or ideally, send batch updates.
-        // Example: Delete todos not in previousState, update/insert others.
-        // This is complex, so a full re-fetch might be a pragmatic first step.
-        await fetchTodos();
-      }
-    } catch (err: any) {
-      console.error('Error performing undo:', err);
-      setError(err.message || 'Failed to undo');
-      // Potentially roll back the undo if DB operations fail significantly
-      setHistory(prevHistory => [...prevHistory, { todos: todos, timestamp: Date.now() }]); // Rollback history
-      setTodos(history[history.length - 1].todos) // Rollback todos
-    }
+    await undo();
   };
 
   const shouldShowExpandButton = (todo: TodoItem) => {
@@ -511,7 +302,7 @@ const TodoList: React.FC<TodoListProps> = ({ pageId }) => {
           {error}
         </p>
         <button
-          onClick={fetchTodos}
+          onClick={loadTodos}
           className="mt-2 text-blue-600 hover:underline flex items-center gap-1"
         >
           <RefreshCw size={14} />
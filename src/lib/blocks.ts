@@ -0,0 +1,145 @@
+// Helpers for comparing EditorJS documents block by block
+
+export type EditorBlock = {
+  id?: string;
+  type: string;
+  data: Record<string, unknown>;
+};
+
+export type EditorContent = {
+  time?: number;
+  version?: string;
+  blocks?: EditorBlock[];
+};
+
+export type BlockChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export type BlockDiffEntry = {
+  key: string;
+  change: BlockChange;
+  before?: EditorBlock;
+  after?: EditorBlock;
+};
+
+// Older content (and blocks from TextEditor) has no ids, so fall back to position
+function getBlockKey(block: EditorBlock, index: number): string {
+  return block.id ?? `#${index}`;
+}
+
+function isSameBlock(a: EditorBlock, b: EditorBlock): boolean {
+  return a.type === b.type && JSON.stringify(a.data) === JSON.stringify(b.data);
+}
+
+// Walks `after` in order and slots blocks that only exist in `before` back in
+// at the position they had there
+export function diffBlocks(
+  before: EditorContent | null | undefined,
+  after: EditorContent | null | undefined
+): BlockDiffEntry[] {
+  const beforeBlocks = before?.blocks ?? [];
+  const afterBlocks = after?.blocks ?? [];
+  const beforeKeys = beforeBlocks.map(getBlockKey);
+  const afterKeys = new Set(afterBlocks.map(getBlockKey));
+
+  const diff: BlockDiffEntry[] = [];
+  let cursor = 0;
+
+  const emitRemovedUntil = (position: number) => {
+    for (; cursor < position; cursor++) {
+      if (!afterKeys.has(beforeKeys[cursor])) {
+        diff.push({
+          key: beforeKeys[cursor],
+          change: 'removed',
+          before: beforeBlocks[cursor],
+        });
+      }
+    }
+  };
+
+  afterBlocks.forEach((block, index) => {
+    const key = getBlockKey(block, index);
+    const position = beforeKeys.indexOf(key);
+
+    if (position === -1) {
+      diff.push({ key, change: 'added', after: block });
+      return;
+    }
+
+    emitRemovedUntil(position);
+    cursor = Math.max(cursor, position + 1);
+
+    const previous = beforeBlocks[position];
+    diff.push({
+      key,
+      change: isSameBlock(previous, block) ? 'unchanged' : 'changed',
+      before: previous,
+      after: block,
+    });
+  });
+
+  emitRemovedUntil(beforeBlocks.length);
+
+  return diff;
+}
+
+// Keeps every block from both sides; where a block differs, `local` wins
+export function mergeBlocks(
+  local: EditorContent | null | undefined,
+  server: EditorContent | null | undefined
+): EditorContent {
+  const blocks = diffBlocks(server, local).map(
+    (entry) => (entry.after ?? entry.before) as EditorBlock
+  );
+
+  return {
+    ...(server ?? {}),
+    ...(local ?? {}),
+    time: Date.now(),
+    blocks,
+  };
+}
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+// Plain-text preview of a block, used when listing blocks in the UI
+export function getBlockText(block: EditorBlock): string {
+  const { data } = block;
+  if (!data) return '';
+
+  if (typeof data.text === 'string') return stripHtml(data.text);
+  if (typeof data.code === 'string') return data.code;
+
+  // Lists store strings, nested lists store { content, items } nodes
+  if (Array.isArray(data.items)) {
+    const flatten = (items: unknown[]): string[] =>
+      items.flatMap((item) => {
+        if (typeof item === 'string') return [stripHtml(item)];
+        const node = item as {
+          content?: string;
+          text?: string;
+          items?: unknown[];
+        };
+        const text = stripHtml(node?.content ?? node?.text ?? '');
+        return [text, ...flatten(node?.items ?? [])];
+      });
+    return flatten(data.items).join(' · ');
+  }
+
+  if (Array.isArray(data.content)) {
+    return (data.content as string[][])
+      .map((row) => row.map(stripHtml).join(' | '))
+      .join(' / ');
+  }
+
+  if (typeof data.caption === 'string') return stripHtml(data.caption);
+  if (typeof data.link === 'string') return data.link;
+
+  return '';
+}
@@ -1,11 +1,84 @@
-import { openDB, DBSchema } from 'idb';
-import { Page, TodoItem } from '../types';
+import { openDB, deleteDB, DBSchema } from 'idb';
+import { storage, PageWriteOutcome } from './storage';
+import {
+  broadcastChange,
+  isSyncLeader,
+  onBecomeSyncLeader,
+  postToTabs,
+  subscribeToTabs,
+} from './tabSync';
+import { DB_VERSION, runMigrations } from './dbMigrations';
+import { Page, PageLink, PageTemplate, PageVersion, TodoItem } from '../types';
 
-interface NotionCloneDB extends DBSchema {
+export type SyncOperation = 'create' | 'update' | 'delete' | 'upsert';
+export type SyncTable =
+  | 'pages'
+  | 'todos'
+  | 'page_links'
+  | 'user_preferences'
+  | 'page_versions'
+  | 'page_templates';
+
+export type SyncQueueItem = {
+  id?: number;
+  type: SyncOperation;
+  table: SyncTable;
+  data: any;
+  timestamp: Date;
+  baseUpdatedAt?: string; // Server updated_at the change was made against
+  attempts?: number; // Failed replays so far
+  lastError?: string; // Last failure reported while replaying this item
+  nextRetryAt?: Date; // Replays are skipped until this time
+  conflict?: { server: Page | null }; // Server row that no longer matches baseUpdatedAt
+};
+
+export type SyncEvent =
+  | {
+      type: 'synced';
+      table: SyncTable;
+      row: SyncQueueItem['data'];
+      previousUpdatedAt?: string;
+      // No other writes to the row are still queued
+      settled: boolean;
+    }
+  // Queued writes that cancelled out, so the rows never need to be sent
+  | { type: 'dropped'; table: SyncTable; ids: string[] }
+  | { type: 'conflict'; item: SyncQueueItem }
+  | { type: 'dead-lettered'; item: DeadLetterItem }
+  | { type: 'queue-changed' }
+  | { type: 'sync-started' }
+  | { type: 'sync-finished' };
+
+export type SyncQueueSummary = {
+  pending: number; // Queued writes, including failing ones
+  failing: number; // Conflicted, or failed at least once and waiting to retry
+  deadLettered: number; // Gave up on, waiting for the user in Settings
+  pendingPageIds: string[]; // Pages with queued writes to them or their todos
+  failingPageIds: string[];
+};
+
+export type DeadLetterItem = SyncQueueItem & {
+  failedAt: Date;
+};
+
+// Editor content that hasn't been saved to the page yet
+export type PageDraft = {
+  page_id: string;
+  content: Page['content'];
+  saved_at: string;
+};
+
+// When a page was last opened on this device, for evicting cached content
+export type PageAccess = {
+  page_id: string;
+  opened_at: number;
+};
+
+export interface NotionCloneDB extends DBSchema {
   pages: {
     key: string;
     value: Page;
-    indexes: { 'by-updated': Date };
+    indexes: { 'by-updated': string }; // ISO timestamp
   };
   todos: {
     key: string;
@@ -14,59 +87,155 @@ interface NotionCloneDB extends DBSchema {
   };
   syncQueue: {
     key: number; // Changed from 'any' to 'number' since it's auto-incremented
-    value: {
-      id?: number;
-      type: 'create' | 'update' | 'delete' | 'upsert';
-      table: 'pages' | 'todos' | 'meta' | 'user_preferences';
-      data: any;
-      timestamp: Date;
-    };
+    value: SyncQueueItem;
+  };
+  deadLetter: {
+    key: number; // Keeps the id the item had in syncQueue
+    value: DeadLetterItem;
+  };
+  page_links: {
+    key: string;
+    value: PageLink;
+    indexes: { 'by-source': string; 'by-target': string };
   };
   user_preferences: {
     key: string;
     value: {
-      id?: string;
+      id: string;
       value: any;
     };
     indexes: { 'by-id': string };
   };
+  drafts: {
+    key: string;
+    value: PageDraft;
+  };
+  page_access: {
+    key: string;
+    value: PageAccess;
+  };
+  page_versions: {
+    key: string;
+    value: PageVersion;
+    indexes: { 'by-page': string };
+  };
+  page_templates: {
+    key: string;
+    value: PageTemplate;
+  };
 }
 
-// Create a function to initialize the database
+const DB_NAME = 'notion-clone';
+
 export function initDB() {
-  return openDB<NotionCloneDB>('notion-clone', 2, {
-    // Version bumped to 2
-    upgrade(db, oldVersion) {
-      // Migration from version 1 to 2
-      if (oldVersion < 1) {
-        const pagesStore = db.createObjectStore('pages', { keyPath: 'id' });
-        pagesStore.createIndex('by-updated', 'updated_at');
-        const todosStore = db.createObjectStore('todos', { keyPath: 'id' });
-        todosStore.createIndex('by-page', 'page_id');
-        db.createObjectStore('syncQueue', {
-          keyPath: 'id',
-          autoIncrement: true,
-        });
+  return openDB<NotionCloneDB>(DB_NAME, DB_VERSION, {
+    upgrade(db, oldVersion, _newVersion, transaction) {
+      // Aborting makes openDB reject, which triggers a rebuild below
+      runMigrations(db, oldVersion, transaction).catch((error) => {
+        console.error(error);
+        try {
+          transaction.abort();
+        } catch {
+          // Already finished or aborted
+        }
+      });
+    },
+    // A newer version in another tab is waiting for this connection to close.
+    // Reload so this tab runs the same code as the one that upgraded. The
+    // service worker just lets go; its replacement ships the new code.
+    blocking(_currentVersion, _blockedVersion, event) {
+      (event.target as IDBDatabase).close();
+      if (typeof window !== 'undefined') {
+        window.location.reload();
       }
+    },
+  });
+}
 
-      if (oldVersion < 2) {
-        const userPrefsStore = db.createObjectStore('user_preferences', {
-          keyPath: 'id',
-        });
-        userPrefsStore.createIndex('by-id', 'id');
-      }
+// Queued writes and drafts are the only local data the server doesn't have
+// yet, so they are copied out before the database is thrown away
+async function salvageQueuedWrites() {
+  const salvaged = {
+    syncQueue: [] as SyncQueueItem[],
+    deadLetter: [] as DeadLetterItem[],
+    drafts: [] as PageDraft[],
+  };
+  try {
+    // Opening without a version leaves the database as it is
+    const db = await openDB(DB_NAME);
+    if (db.objectStoreNames.contains('syncQueue')) {
+      salvaged.syncQueue = await db.getAll('syncQueue');
+    }
+    if (db.objectStoreNames.contains('deadLetter')) {
+      salvaged.deadLetter = await db.getAll('deadLetter');
+    }
+    if (db.objectStoreNames.contains('drafts')) {
+      salvaged.drafts = await db.getAll('drafts');
+    }
+    db.close();
+  } catch (error) {
+    console.error('Could not read queued writes from the old database:', error);
+  }
+  return salvaged;
+}
+
+// Recreates the local database from scratch. Cached rows come back from
+// the backend on the next pull, which lists everything since the checkpoints
+// went with the old database.
+async function rebuildDB() {
+  const salvaged = await salvageQueuedWrites();
+  await deleteDB(DB_NAME, {
+    blocked() {
+      console.warn('Waiting for other tabs to close the local database');
     },
   });
+
+  const db = await initDB();
+  const tx = db.transaction(['syncQueue', 'deadLetter', 'drafts'], 'readwrite');
+  await Promise.all([
+    ...salvaged.syncQueue.map((item) => tx.objectStore('syncQueue').put(item)),
+    ...salvaged.deadLetter.map((item) =>
+      tx.objectStore('deadLetter').put(item)
+    ),
+    ...salvaged.drafts.map((draft) => tx.objectStore('drafts').put(draft)),
+    tx.done,
+  ]);
+  return db;
+}
+
+// A failed migration or a corrupt database should not lock the user out, so
+// either one falls back to a fresh cache
+async function openLocalDB() {
+  try {
+    return await initDB();
+  } catch (error) {
+    // This code is older than the database, which is not corrupt. Rebuilding
+    // would throw away what the newer version wrote.
+    if (error instanceof DOMException && error.name === 'VersionError') {
+      throw error;
+    }
+    console.error('Could not open the local database, rebuilding it:', error);
+    return rebuildDB();
+  }
 }
 
 // Create a database promise that can be used throughout the module
-let dbPromise = initDB();
+let dbPromise = openLocalDB();
+
+// Throws the local cache away and starts over, keeping queued writes
+export async function resetLocalDB() {
+  const db = await dbPromise;
+  db.close();
+  dbPromise = rebuildDB();
+  await dbPromise;
+}
 
 // Export functions that use the database promise
 export async function addToSyncQueue(
-  type: 'create' | 'update' | 'delete' | 'upsert',
-  table: 'pages' | 'todos' | 'meta' | 'user_preferences',
-  data: any
+  type: SyncOperation,
+  table: SyncTable,
+  data: any,
+  baseUpdatedAt?: string
 ) {
   const db = await dbPromise;
   await db.add('syncQueue', {
@@ -74,27 +243,568 @@ export async function addToSyncQueue(
     table,
     data,
     timestamp: new Date(),
+    ...(baseUpdatedAt && { baseUpdatedAt }),
+  });
+  notifySync({ type: 'queue-changed' });
+  requestBackgroundSync();
+}
+
+// Background Sync tag the service worker replays the queue under
+export const SYNC_TAG = 'hasnote-sync-queue';
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+// Asks the browser to wake the service worker once there is a connection, so
+// writes still reach the server if every tab is closed before then
+function requestBackgroundSync() {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker) return;
+
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) =>
+      (registration as SyncRegistration | undefined)?.sync?.register(SYNC_TAG)
+    )
+    .catch((error) =>
+      console.warn('Could not register background sync:', error)
+    );
+}
+
+const syncListeners = new Set<(event: SyncEvent) => void>();
+
+export function subscribeToSync(listener: (event: SyncEvent) => void) {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+// Events raised in the leader tab are relayed so every tab's stores see them
+function notifySync(event: SyncEvent, fromOtherTab = false) {
+  syncListeners.forEach((listener) => listener(event));
+  if (!fromOtherTab) {
+    postToTabs({ type: 'sync-event', event });
+  }
+}
+
+// After this many failed replays an item is moved to the dead-letter store
+export const MAX_SYNC_ATTEMPTS = 6;
+const RETRY_BASE_DELAY = 5 * 1000;
+const RETRY_MAX_DELAY = 15 * 60 * 1000;
+const SYNC_INTERVAL = 60 * 1000;
+
+// Exponential backoff with up to 20% jitter so tabs and devices spread out
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(
+    RETRY_BASE_DELAY * 2 ** (attempts - 1),
+    RETRY_MAX_DELAY
+  );
+  return delay + Math.random() * delay * 0.2;
+}
+
+function getRowKey(item: SyncQueueItem): string {
+  const key =
+    item.table === 'user_preferences'
+      ? item.data?.preference_key
+      : item.data?.id;
+  return `${item.table}:${key}`;
+}
+
+// A page create whose id the server already has. Either an earlier attempt
+// got through, or another device made the page under the same derived id, as
+// when two devices open the same journal day offline. Local edits are never
+// dropped for the server copy: a differing page goes to the conflict flow.
+async function settleDuplicatePage(page: Page): Promise<PageWriteOutcome> {
+  const server = await storage.pages.get(page.id);
+  if (!server) {
+    throw new Error(`"${page.title}" could not be created on the server`);
+  }
+
+  if (
+    server.title === page.title &&
+    JSON.stringify(server.content ?? null) ===
+      JSON.stringify(page.content ?? null)
+  ) {
+    return { status: 'synced', row: server };
+  }
+
+  // Nothing was written here yet, so the server copy simply replaces it
+  if (!page.content?.blocks?.length) {
+    const db = await dbPromise;
+    await db.put('pages', server);
+    broadcastChange('pages', [page.id], true);
+    return { status: 'synced' };
+  }
+
+  return { status: 'conflict', server };
+}
+
+async function replaySyncItem(item: SyncQueueItem): Promise<PageWriteOutcome> {
+  if (item.table === 'pages' && item.type === 'update' && item.baseUpdatedAt) {
+    return storage.pages.updateIfUnchanged(item.data, item.baseUpdatedAt);
+  }
+
+  // Preferences are keyed by (user_id, preference_key) rather than id
+  if (item.table === 'user_preferences') {
+    if (item.type === 'delete') {
+      await storage.preferences.delete(
+        item.data.user_id,
+        item.data.preference_key
+      );
+    } else {
+      await storage.preferences.upsert(item.data);
+    }
+    return { status: 'synced' };
+  }
+
+  // Versions are only ever created
+  if (item.table === 'page_versions') {
+    await storage.versions.insert(item.data);
+    return { status: 'synced' };
+  }
+
+  // Links are created and deleted, never edited
+  if (item.table === 'page_links') {
+    if (item.type === 'delete') {
+      await storage.links.delete(item.data.id);
+    } else {
+      await storage.links.insert(item.data);
+    }
+    return { status: 'synced' };
+  }
+
+  // Templates are created and deleted, never edited
+  if (item.table === 'page_templates') {
+    if (item.type === 'delete') {
+      await storage.templates.delete(item.data.id);
+    } else {
+      await storage.templates.insert(item.data);
+    }
+    return { status: 'synced' };
+  }
+
+  const rows = item.table === 'pages' ? storage.pages : storage.todos;
+
+  switch (item.type) {
+    case 'create': {
+      // Pages read back the updated_at the backend stamped on insert
+      if (item.table === 'pages') {
+        const row = await storage.pages.insert(item.data);
+        return row ? { status: 'synced', row } : settleDuplicatePage(item.data);
+      }
+      // Carried journal todos share derived ids across devices too. Edits
+      // folded into the create are sent as an update, like any other.
+      if (!(await rows.insert(item.data))) {
+        await rows.update(item.data);
+      }
+      return { status: 'synced' };
+    }
+    case 'update':
+      await rows.update(item.data);
+      return { status: 'synced' };
+    case 'delete':
+      await rows.delete(item.data.id);
+      return { status: 'synced' };
+    case 'upsert':
+      await rows.upsert(item.data);
+      return { status: 'synced' };
+    default:
+      throw new Error(`Unsupported sync operation "${item.type}"`);
+  }
+}
+
+// The server stamps its own updated_at on every write. Adopt it locally and
+// rebase queued edits that were made on top of the version just sent.
+async function confirmPageVersion(sent: Page, row: Page) {
+  const db = await dbPromise;
+
+  const local = await db.get('pages', row.id);
+  if (local && local.updated_at === sent.updated_at) {
+    await db.put('pages', { ...local, updated_at: row.updated_at });
+    broadcastChange('pages', [row.id]);
+  }
+
+  const queued = await db.getAll('syncQueue');
+  for (const item of queued) {
+    if (
+      item.table === 'pages' &&
+      item.data?.id === row.id &&
+      item.baseUpdatedAt === sent.updated_at
+    ) {
+      await db.put('syncQueue', { ...item, baseUpdatedAt: row.updated_at });
+    }
+  }
+}
+
+async function recordSyncFailure(item: SyncQueueItem, error: unknown) {
+  const db = await dbPromise;
+  const message =
+    error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || 'Sync failed';
+  const attempts = (item.attempts ?? 0) + 1;
+
+  console.error('Sync failed for item:', item, error);
+
+  if (attempts >= MAX_SYNC_ATTEMPTS) {
+    const deadLetter: DeadLetterItem = {
+      ...item,
+      attempts,
+      lastError: message,
+      nextRetryAt: undefined,
+      failedAt: new Date(),
+    };
+    const tx = db.transaction(['syncQueue', 'deadLetter'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('syncQueue').delete(item.id!),
+      tx.objectStore('deadLetter').put(deadLetter),
+      tx.done,
+    ]);
+    notifySync({ type: 'dead-lettered', item: deadLetter });
+    return;
+  }
+
+  await db.put('syncQueue', {
+    ...item,
+    attempts,
+    lastError: message,
+    nextRetryAt: new Date(Date.now() + getRetryDelay(attempts)),
   });
 }
 
-export async function processSyncQueue() {
+function canMergeInto(previous: SyncQueueItem, item: SyncQueueItem) {
+  if (item.type === 'update') {
+    return previous.type === 'create' || previous.type === 'update';
+  }
+  return item.type === 'upsert' && previous.type === 'upsert';
+}
+
+// Works out which queued writes are redundant:
+// - consecutive writes to one row collapse into a single patch, and an update
+//   right behind a create is folded into it
+// - an update immediately followed by a delete of the same row is dropped
+// - a create that never reached the server cancels out with its delete,
+//   together with any queued todos of that page
+// Only adjacent items are merged, so a change never jumps ahead of writes to
+// rows it may depend on.
+function coalesceSyncItems(items: SyncQueueItem[]) {
+  const removed = new Set<number>();
+  const changed = new Map<number, SyncQueueItem>();
+  const unsentCreates = new Set<string>();
+  const rowItems = new Map<string, number[]>();
+  const cancelledPages = new Set<string>();
+  let previous: SyncQueueItem | null = null;
+
+  const keep = (item: SyncQueueItem, rowKey: string) => {
+    rowItems.set(rowKey, [...(rowItems.get(rowKey) ?? []), item.id!]);
+    previous = item;
+  };
+
+  for (const item of items) {
+    const rowKey = getRowKey(item);
+
+    if (item.conflict) {
+      // Conflicted rows are left exactly as they are until resolved
+      unsentCreates.delete(rowKey);
+      keep(item, rowKey);
+      previous = null;
+      continue;
+    }
+
+    if (item.type === 'delete' && unsentCreates.has(rowKey)) {
+      [...(rowItems.get(rowKey) ?? []), item.id!].forEach((id) => {
+        removed.add(id);
+        changed.delete(id);
+      });
+      rowItems.delete(rowKey);
+      unsentCreates.delete(rowKey);
+      if (item.table === 'pages') cancelledPages.add(item.data.id);
+      previous = null;
+      continue;
+    }
+
+    const last: SyncQueueItem | null = previous;
+    if (last && !last.conflict && getRowKey(last) === rowKey) {
+      if (canMergeInto(last, item)) {
+        const merged: SyncQueueItem = {
+          ...last,
+          data: { ...last.data, ...item.data },
+        };
+        changed.set(last.id!, merged);
+        removed.add(item.id!);
+        previous = merged;
+        continue;
+      }
+
+      if (last.type === 'update' && item.type === 'delete') {
+        removed.add(last.id!);
+        changed.delete(last.id!);
+        rowItems.set(
+          rowKey,
+          (rowItems.get(rowKey) ?? []).filter((id) => id !== last.id)
+        );
+      }
+    }
+
+    if (item.type === 'create' && !item.attempts) {
+      unsentCreates.add(rowKey);
+    }
+    keep(item, rowKey);
+  }
+
+  for (const item of items) {
+    if (
+      ((item.table === 'todos' || item.table === 'page_versions') &&
+        cancelledPages.has(item.data?.page_id)) ||
+      (item.table === 'page_links' &&
+        (cancelledPages.has(item.data?.source_page_id) ||
+          cancelledPages.has(item.data?.target_page_id)))
+    ) {
+      removed.add(item.id!);
+      changed.delete(item.id!);
+    }
+  }
+
+  return { removed, changed };
+}
+
+async function compactSyncQueue() {
   const db = await dbPromise;
   const tx = db.transaction('syncQueue', 'readwrite');
-  const store = tx.objectStore('syncQueue');
-  const items = await store.getAll();
+  const items = await tx.store.getAll();
+  const { removed, changed } = coalesceSyncItems(items);
+
+  await Promise.all([
+    ...[...removed].map((id) => tx.store.delete(id)),
+    ...[...changed.values()].map((item) => tx.store.put(item)),
+    tx.done,
+  ]);
 
+  // Rows left with nothing to send settle here instead of on a replay
+  const remaining = new Set(
+    items.filter((item) => !removed.has(item.id!)).map(getRowKey)
+  );
+  const dropped = new Map<SyncTable, Set<string>>();
   for (const item of items) {
+    if (!removed.has(item.id!) || remaining.has(getRowKey(item))) continue;
+    const ids = dropped.get(item.table) ?? new Set<string>();
+    dropped.set(item.table, ids.add(item.data?.id));
+  }
+  dropped.forEach((ids, table) =>
+    notifySync({ type: 'dropped', table, ids: [...ids] })
+  );
+}
+
+async function drainSyncQueue() {
+  await compactSyncQueue();
+
+  const db = await dbPromise;
+  const ids = await db.getAllKeys('syncQueue');
+  const now = Date.now();
+
+  // Once an item fails, later writes to the same row wait behind it
+  const blockedRows = new Set<string>();
+
+  for (const id of ids) {
+    // Re-read each item, earlier replays may have rebased it
+    const item = await db.get('syncQueue', id);
+    if (!item) continue;
+
+    const rowKey = getRowKey(item);
+    if (blockedRows.has(rowKey)) continue;
+
+    if (
+      item.conflict ||
+      (item.nextRetryAt && item.nextRetryAt.getTime() > now)
+    ) {
+      blockedRows.add(rowKey);
+      continue;
+    }
+
     try {
-      // Process sync item
-      // Add your Supabase sync logic here
-      // @ts-ignore
-      await store.delete(item.id);
+      const outcome = await replaySyncItem(item);
+
+      if (outcome.status === 'conflict') {
+        blockedRows.add(rowKey);
+        const conflicted = { ...item, conflict: { server: outcome.server } };
+        await db.put('syncQueue', conflicted);
+        notifySync({ type: 'conflict', item: conflicted });
+        continue;
+      }
+
+      await db.delete('syncQueue', item.id!);
+
+      if (outcome.row && item.table === 'pages') {
+        await confirmPageVersion(item.data, outcome.row);
+      }
+      const queued = await db.getAll('syncQueue');
+      notifySync({
+        type: 'synced',
+        table: item.table,
+        row: outcome.row ?? item.data,
+        previousUpdatedAt: item.data?.updated_at,
+        settled: !queued.some((queuedItem) => getRowKey(queuedItem) === rowKey),
+      });
     } catch (error) {
-      console.error('Sync failed for item:', item, error);
+      blockedRows.add(rowKey);
+      await recordSyncFailure(item, error);
     }
   }
 }
 
+const DRAIN_LOCK = 'hasnote-sync-drain';
+
+// Both the leader tab and the service worker replay the queue. The lock keeps
+// them from sending the same write twice.
+export function replaySyncQueue() {
+  const run = async () => {
+    notifySync({ type: 'sync-started' });
+    try {
+      await drainSyncQueue();
+    } finally {
+      notifySync({ type: 'sync-finished' });
+    }
+  };
+  return navigator.locks ? navigator.locks.request(DRAIN_LOCK, run) : run();
+}
+
+let syncChain: Promise<void> = Promise.resolve();
+
+// Replays queued writes in order; overlapping calls run one after another.
+// Tabs that are not the sync leader ask the leader to do it instead.
+export function processSyncQueue() {
+  if (!isSyncLeader()) {
+    postToTabs({ type: 'sync-requested' });
+    return syncChain;
+  }
+
+  syncChain = syncChain.then(replaySyncQueue).catch((error) => {
+    console.error('Error processing sync queue:', error);
+  });
+  return syncChain;
+}
+
+// Whether a row still has local writes waiting to reach the server
+export async function hasPendingWrites(table: SyncTable, id: string) {
+  return (await getPendingRowIds(table)).has(id);
+}
+
+export async function getPendingRowIds(table: SyncTable) {
+  const db = await dbPromise;
+  const items = await db.getAll('syncQueue');
+  return new Set<string>(
+    items.filter((item) => item.table === table).map((item) => item.data?.id)
+  );
+}
+
+export async function getSyncQueueSummary(): Promise<SyncQueueSummary> {
+  const db = await dbPromise;
+  const items = await db.getAll('syncQueue');
+  const deadLettered = await db.count('deadLetter');
+  const pendingPageIds = new Set<string>();
+  const failingPageIds = new Set<string>();
+  let failing = 0;
+
+  for (const item of items) {
+    const pageId =
+      item.table === 'pages'
+        ? item.data?.id
+        : item.table === 'todos' || item.table === 'page_versions'
+          ? item.data?.page_id
+          : item.table === 'page_links'
+            ? item.data?.source_page_id
+            : undefined;
+    const isFailing = !!item.conflict || !!item.attempts;
+
+    if (isFailing) failing += 1;
+    if (pageId) {
+      pendingPageIds.add(pageId);
+      if (isFailing) failingPageIds.add(pageId);
+    }
+  }
+
+  return {
+    pending: items.length,
+    failing,
+    deadLettered,
+    pendingPageIds: [...pendingPageIds],
+    failingPageIds: [...failingPageIds],
+  };
+}
+
+export async function getSyncConflicts() {
+  const db = await dbPromise;
+  const items = await db.getAll('syncQueue');
+  return items.filter((item) => item.conflict);
+}
+
+// Drops every queued write for the conflicted page. With a `resolved` page the
+// local copy is re-queued on top of the server version, without one the server
+// copy replaces the local page.
+export async function resolvePageConflict(
+  item: SyncQueueItem,
+  resolved: Page | null
+) {
+  const db = await dbPromise;
+  const server = item.conflict?.server ?? null;
+  const rowKey = getRowKey(item);
+
+  const queued = await db.getAll('syncQueue');
+  for (const queuedItem of queued) {
+    if (getRowKey(queuedItem) === rowKey) {
+      await db.delete('syncQueue', queuedItem.id!);
+    }
+  }
+
+  if (resolved) {
+    await db.put('pages', resolved);
+    if (server) {
+      await addToSyncQueue('update', 'pages', resolved, server.updated_at);
+    } else {
+      // The page was deleted on the server, so keeping it means re-creating it
+      await addToSyncQueue('create', 'pages', resolved);
+    }
+  } else if (server) {
+    await db.put('pages', server);
+  } else {
+    await db.delete('pages', item.data.id);
+  }
+  broadcastChange('pages', [item.data.id]);
+  notifySync({ type: 'queue-changed' });
+}
+
+export async function getDeadLetters() {
+  const db = await dbPromise;
+  return db.getAll('deadLetter');
+}
+
+// Puts a dead-lettered item back at the end of the queue with a fresh
+// attempt count, optionally with edited data
+export async function retryDeadLetter(
+  id: number,
+  data?: SyncQueueItem['data']
+) {
+  const db = await dbPromise;
+  const item = await db.get('deadLetter', id);
+  if (!item) return;
+
+  await addToSyncQueue(
+    item.type,
+    item.table,
+    data ?? item.data,
+    item.baseUpdatedAt
+  );
+  await db.delete('deadLetter', id);
+  notifySync({ type: 'queue-changed' });
+}
+
+export async function discardDeadLetter(id: number) {
+  const db = await dbPromise;
+  await db.delete('deadLetter', id);
+  notifySync({ type: 'queue-changed' });
+}
+
 // Helper functions for user preferences
 export async function getUserPreference(key: string) {
   const db = await dbPromise;
@@ -105,14 +815,47 @@ export async function getUserPreference(key: string) {
 export async function setUserPreference(key: string, value: any) {
   const db = await dbPromise;
   await db.put('user_preferences', { id: key, value });
-  await addToSyncQueue('update', 'user_preferences', { id: key, value });
+  broadcastChange('user_preferences', [key]);
+
+  const user = await storage.auth.getUser();
+  if (!user) return;
+
+  await addToSyncQueue('upsert', 'user_preferences', {
+    user_id: user.id,
+    preference_key: key,
+    preference_value: value,
+    updated_at: new Date().toISOString(),
+  });
 }
 
 // Listen for online/offline events
 if (typeof window !== 'undefined') {
   window.addEventListener('online', async () => {
-    await processSyncQueue();
+    if (isSyncLeader()) {
+      await processSyncQueue();
+    }
   });
+
+  subscribeToTabs((message) => {
+    if (message.type === 'sync-requested' && isSyncLeader()) {
+      processSyncQueue();
+    } else if (message.type === 'sync-event') {
+      notifySync(message.event as SyncEvent, true);
+    }
+  });
+
+  // Pick up anything left from a previous session (or by a closed leader
+  // tab), then retry on a timer
+  onBecomeSyncLeader(() => {
+    if (navigator.onLine) {
+      processSyncQueue();
+    }
+  });
+  setInterval(() => {
+    if (navigator.onLine && isSyncLeader()) {
+      processSyncQueue();
+    }
+  }, SYNC_INTERVAL);
 }
 
 // Export a convenience getter for the database
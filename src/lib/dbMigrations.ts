@@ -0,0 +1,137 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { NotionCloneDB, SyncTable } from './db';
+
+export type UpgradeTransaction = IDBPTransaction<
+  NotionCloneDB,
+  StoreNames<NotionCloneDB>[],
+  'versionchange'
+>;
+
+export type Migration = {
+  version: number;
+  description: string;
+  // Creates stores and indexes, and may await reads and writes on `tx` to
+  // backfill existing data. Throwing aborts the whole upgrade.
+  upgrade: (
+    db: IDBPDatabase<NotionCloneDB>,
+    tx: UpgradeTransaction
+  ) => void | Promise<void>;
+};
+
+const syncTables: SyncTable[] = [
+  'pages',
+  'todos',
+  'page_links',
+  'user_preferences',
+  'page_versions',
+  'page_templates',
+];
+
+// Applied in order, each exactly once. Never edit a migration that has
+// shipped; add a new one with the next version instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Pages, todos and the sync queue',
+    upgrade(db) {
+      const pagesStore = db.createObjectStore('pages', { keyPath: 'id' });
+      pagesStore.createIndex('by-updated', 'updated_at');
+      const todosStore = db.createObjectStore('todos', { keyPath: 'id' });
+      todosStore.createIndex('by-page', 'page_id');
+      db.createObjectStore('syncQueue', {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+    },
+  },
+  {
+    version: 2,
+    description: 'User preferences',
+    upgrade(db) {
+      const userPrefsStore = db.createObjectStore('user_preferences', {
+        keyPath: 'id',
+      });
+      userPrefsStore.createIndex('by-id', 'id');
+    },
+  },
+  {
+    version: 3,
+    description: 'Dead letters for sync items that keep failing',
+    upgrade(db) {
+      db.createObjectStore('deadLetter', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Cached links between pages',
+    upgrade(db) {
+      const linksStore = db.createObjectStore('page_links', {
+        keyPath: 'id',
+      });
+      linksStore.createIndex('by-source', 'source_page_id');
+      linksStore.createIndex('by-target', 'target_page_id');
+    },
+  },
+  {
+    version: 5,
+    description: 'Drop queued writes for tables that have no remote copy',
+    async upgrade(_db, tx) {
+      for (const storeName of ['syncQueue', 'deadLetter'] as const) {
+        let cursor = await tx.objectStore(storeName).openCursor();
+        while (cursor) {
+          if (!syncTables.includes(cursor.value.table)) {
+            await cursor.delete();
+          }
+          cursor = await cursor.continue();
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Editor drafts and page access times for cache eviction',
+    upgrade(db) {
+      db.createObjectStore('drafts', { keyPath: 'page_id' });
+      db.createObjectStore('page_access', { keyPath: 'page_id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Page version history',
+    upgrade(db) {
+      const versionsStore = db.createObjectStore('page_versions', {
+        keyPath: 'id',
+      });
+      versionsStore.createIndex('by-page', 'page_id');
+    },
+  },
+  {
+    version: 8,
+    description: 'Page templates',
+    upgrade(db) {
+      db.createObjectStore('page_templates', { keyPath: 'id' });
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+// Runs every migration newer than the version the database was at
+export async function runMigrations(
+  db: IDBPDatabase<NotionCloneDB>,
+  oldVersion: number,
+  tx: UpgradeTransaction
+) {
+  for (const migration of migrations) {
+    if (migration.version <= oldVersion) continue;
+    try {
+      await migration.upgrade(db, tx);
+    } catch (error) {
+      throw new Error(
+        `Local database migration ${migration.version} (${migration.description}) failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { getDB, getPendingRowIds } from './db';
+import { storage } from './storage';
+import { broadcastChange } from './tabSync';
+import { isSameTimestamp } from './utils';
+
+export type DeltaTable = 'pages' | 'todos';
+
+// Checkpoints describe what this device has cached, so they are kept in the
+// local preferences store and never synced to other devices
+const checkpointKey = (table: DeltaTable) => `sync_checkpoint:${table}`;
+
+export async function getSyncCheckpoint(table: DeltaTable) {
+  const db = await getDB();
+  const checkpoint = await db.get('user_preferences', checkpointKey(table));
+  return checkpoint?.value as string | undefined;
+}
+
+async function setSyncCheckpoint(table: DeltaTable, value: string) {
+  const db = await getDB();
+  await db.put('user_preferences', { id: checkpointKey(table), value });
+}
+
+function latest(current: string | undefined, candidate: string) {
+  return !current || new Date(candidate) > new Date(current)
+    ? candidate
+    : current;
+}
+
+// Pulls rows changed in the backend since the last checkpoint, plus tombstones
+// for rows deleted since then, into IndexedDB. Without a checkpoint the whole
+// table is listed and cached rows missing from it are dropped. Rows with local
+// writes still queued are left alone; the sync queue settles those.
+export async function pullChanges(table: DeltaTable) {
+  const checkpoint = await getSyncCheckpoint(table);
+  const { rows, deleted: tombstones } =
+    await storage[table].listChanges(checkpoint);
+
+  const pending = await getPendingRowIds(table);
+  const db = await getDB();
+  const tx = db.transaction([table, 'todos', 'page_links'], 'readwrite');
+  const store = tx.objectStore(table);
+  const changedIds: string[] = [];
+  const deletedPageIds: string[] = [];
+  let nextCheckpoint = checkpoint;
+
+  for (const row of rows) {
+    nextCheckpoint = latest(nextCheckpoint, row.updated_at);
+    if (pending.has(row.id)) continue;
+
+    const cached = await store.get(row.id);
+    if (cached && isSameTimestamp(cached.updated_at, row.updated_at)) continue;
+
+    // A newer page version replaces the cached content too, which is then
+    // fetched again the next time the page is opened
+    await store.put(row as never);
+    changedIds.push(row.id);
+  }
+
+  let deletedIds: string[];
+  if (checkpoint) {
+    // Journal pages reuse their id when a deleted day is created again, so a
+    // row written after its tombstone is still there
+    const writtenAt = new Map(rows.map((row) => [row.id, row.updated_at]));
+    deletedIds = [];
+    for (const tombstone of tombstones) {
+      nextCheckpoint = latest(nextCheckpoint, tombstone.deleted_at);
+      const written = writtenAt.get(tombstone.record_id);
+      if (!written || new Date(written) < new Date(tombstone.deleted_at)) {
+        deletedIds.push(tombstone.record_id);
+      }
+    }
+  } else {
+    const serverIds = new Set(rows.map((row) => row.id));
+    deletedIds = (await store.getAllKeys()).filter((id) => !serverIds.has(id));
+  }
+
+  for (const id of deletedIds) {
+    if (pending.has(id) || !(await store.get(id))) continue;
+
+    await store.delete(id);
+    changedIds.push(id);
+    if (table === 'pages') deletedPageIds.push(id);
+  }
+
+  // The server cascades page deletes to todos and links without leaving
+  // tombstones for them, so drop those here
+  const todoIds: string[] = [];
+  const linkIds: string[] = [];
+  for (const pageId of deletedPageIds) {
+    const todoKeys = await tx
+      .objectStore('todos')
+      .index('by-page')
+      .getAllKeys(pageId);
+    const linkKeys = [
+      ...(await tx
+        .objectStore('page_links')
+        .index('by-source')
+        .getAllKeys(pageId)),
+      ...(await tx
+        .objectStore('page_links')
+        .index('by-target')
+        .getAllKeys(pageId)),
+    ];
+    for (const id of todoKeys) await tx.objectStore('todos').delete(id);
+    for (const id of linkKeys) await tx.objectStore('page_links').delete(id);
+    todoIds.push(...todoKeys);
+    linkIds.push(...linkKeys);
+  }
+
+  await tx.done;
+
+  if (nextCheckpoint && nextCheckpoint !== checkpoint) {
+    await setSyncCheckpoint(table, nextCheckpoint);
+  }
+
+  // The changes came from the server, so this tab's views need them as well
+  broadcastChange(table, changedIds, true);
+  broadcastChange('todos', todoIds, true);
+  broadcastChange('page_links', linkIds, true);
+
+  return changedIds;
+}
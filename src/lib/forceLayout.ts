@@ -0,0 +1,109 @@
+// A small force-directed layout: nodes push each other apart, edges pull
+// their ends together and everything drifts towards the middle. Forces are
+// scaled by `alpha`, which cools on every tick until the layout settles.
+
+export type LayoutNode = {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+};
+
+export type LayoutEdge = {
+  source: string;
+  target: string;
+};
+
+export type Point = { x: number; y: number };
+
+const REPULSION = 900;
+const EDGE_LENGTH = 50;
+const EDGE_STRENGTH = 0.06;
+const GRAVITY = 0.015;
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.977;
+const ALPHA_MIN = 0.005;
+
+export function createForceLayout(
+  ids: string[],
+  edges: LayoutEdge[],
+  // Where nodes were before, so a changed graph doesn't start over
+  previous?: Map<string, Point>
+) {
+  // New nodes start on a spiral, which spreads them out without randomness
+  const nodes: LayoutNode[] = ids.map((id, index) => {
+    const start = previous?.get(id);
+    const angle = index * 2.4;
+    const radius = 12 * Math.sqrt(index + 1);
+    return {
+      id,
+      x: start?.x ?? radius * Math.cos(angle),
+      y: start?.y ?? radius * Math.sin(angle),
+      vx: 0,
+      vy: 0,
+    };
+  });
+
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const springs = edges.flatMap((edge) => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    return source === undefined || target === undefined || source === target
+      ? []
+      : [[source, target] as const];
+  });
+
+  // A graph that barely changed needs less settling
+  let alpha = previous && previous.size > 0 ? 0.3 : 1;
+
+  const tick = () => {
+    for (let i = 0; i < nodes.length; i++) {
+      const a = nodes[i];
+      for (let j = i + 1; j < nodes.length; j++) {
+        const b = nodes[j];
+        const dx = b.x - a.x || 0.01;
+        const dy = b.y - a.y || 0.01;
+        const distanceSquared = Math.max(dx * dx + dy * dy, 1);
+        const force = (REPULSION * alpha) / distanceSquared;
+        const distance = Math.sqrt(distanceSquared);
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        a.vx -= fx;
+        a.vy -= fy;
+        b.vx += fx;
+        b.vy += fy;
+      }
+    }
+
+    for (const [sourceIndex, targetIndex] of springs) {
+      const a = nodes[sourceIndex];
+      const b = nodes[targetIndex];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = (distance - EDGE_LENGTH) * EDGE_STRENGTH * alpha;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      a.vx += fx;
+      a.vy += fy;
+      b.vx -= fx;
+      b.vy -= fy;
+    }
+
+    for (const node of nodes) {
+      node.vx = (node.vx - node.x * GRAVITY * alpha) * VELOCITY_DECAY;
+      node.vy = (node.vy - node.y * GRAVITY * alpha) * VELOCITY_DECAY;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+
+    alpha *= ALPHA_DECAY;
+  };
+
+  return {
+    nodes,
+    tick,
+    isSettled: () => alpha < ALPHA_MIN,
+  };
+}
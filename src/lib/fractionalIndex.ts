@@ -0,0 +1,61 @@
+// Fractional indexing: order keys that always have room for another key
+// between any two, so moving an item only rewrites that item's key.
+// Keys compare as plain strings (not localeCompare) and never end in the
+// lowest digit, which is what guarantees the room.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// A key strictly between `a` and `b`, where '' is the lowest possible key
+// and null the highest
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Shared prefix, with `a` padded by the lowest digit
+    let n = 0;
+    while ((a[n] ?? DIGITS[0]) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // The first digits are adjacent
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// A key that sorts after `before` and before `after`. Either may be null to
+// place the key first or last.
+export function generateKeyBetween(
+  before: string | null,
+  after: string | null
+): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order keys out of order: ${before} >= ${after}`);
+  }
+  return midpoint(before ?? '', after);
+}
+
+// `count` evenly spread keys between `before` and `after`
+export function generateKeysBetween(
+  before: string | null,
+  after: string | null,
+  count: number
+): string[] {
+  if (count === 0) return [];
+  if (count === 1) return [generateKeyBetween(before, after)];
+
+  const middle = Math.floor(count / 2);
+  const key = generateKeyBetween(before, after);
+  return [
+    ...generateKeysBetween(before, key, middle),
+    key,
+    ...generateKeysBetween(key, after, count - middle - 1),
+  ];
+}
+
+export function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
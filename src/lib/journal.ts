@@ -0,0 +1,40 @@
+// Journal pages: one page per day, created the first time the day is opened
+
+import { addDays, format, isValid, parse } from 'date-fns';
+import { nameToUUID } from './utils';
+
+// Preference for copying unfinished todos into a new day's journal
+export const JOURNAL_CARRY_TODOS_KEY = 'journal_carry_todos';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+// Journal dates are local calendar days
+export function toJournalDate(date = new Date()): string {
+  return format(date, DATE_FORMAT);
+}
+
+// Null for anything that isn't a real yyyy-MM-dd day
+export function parseJournalDate(value: string): Date | null {
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) && format(date, DATE_FORMAT) === value ? date : null;
+}
+
+export function shiftJournalDate(value: string, days: number): string {
+  return toJournalDate(addDays(parseJournalDate(value) ?? new Date(), days));
+}
+
+export function formatJournalTitle(value: string): string {
+  const date = parseJournalDate(value);
+  return date ? format(date, 'EEEE, MMMM d, yyyy') : value;
+}
+
+// Devices that create the same day's journal offline create the same page,
+// and the server keeps whichever arrives first
+export function getJournalPageId(userId: string, date: string) {
+  return nameToUUID(`journal:${userId}:${date}`);
+}
+
+// Likewise for a todo carried into a day, so it is only carried once
+export function getCarriedTodoId(todoId: string, date: string) {
+  return nameToUUID(`journal-todo:${todoId}:${date}`);
+}
@@ -0,0 +1,33 @@
+// Helpers for copying pages into templates and duplicates
+
+import { Page } from '../types';
+import { storage } from './storage';
+import { mapStrings } from './utils';
+import { PAGE_REFERENCE } from './pageLinks';
+
+// Content is left out of page listings, so pages without it are fetched
+export async function getPageWithContent(page: Page): Promise<Page> {
+  if (page.content !== undefined) return page;
+  if (!navigator.onLine) {
+    throw new Error(
+      `"${page.title}" hasn't been opened on this device yet. Connect to the internet to copy it.`
+    );
+  }
+  const fullPage = await storage.pages.get(page.id);
+  if (!fullPage) throw new Error(`"${page.title}" no longer exists`);
+  return fullPage;
+}
+
+// Points `/page/<id>` references at the copies in `idMap`. References to
+// pages that weren't copied keep pointing at the originals.
+export function remapPageReferences<T>(
+  value: T,
+  idMap: Map<string, string>
+): T {
+  return mapStrings(value, (text) =>
+    text.replace(
+      PAGE_REFERENCE,
+      (_reference, id: string) => `/page/${idMap.get(id) ?? id}`
+    )
+  );
+}
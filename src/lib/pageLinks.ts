@@ -0,0 +1,175 @@
+// Links between pages, kept in `page_links` from the `/page/<id>` references
+// in each page's content
+
+import { Page, PageLink } from '../types';
+import { EditorContent, stripHtml } from './blocks';
+import { getDB, addToSyncQueue } from './db';
+import { storage } from './storage';
+import { broadcastChange } from './tabSync';
+import { mapStrings, nameToUUID } from './utils';
+
+// Links to other pages inside EditorJS content, as the editor writes them
+export const PAGE_REFERENCE = /\/page\/([a-f0-9-]{36})/gi;
+
+// Pages referenced in `content`, in the order they first appear
+export function findLinkedPageIds(content: Page['content']): string[] {
+  const ids = new Set<string>();
+  mapStrings(content ?? {}, (text) => {
+    for (const match of text.matchAll(PAGE_REFERENCE)) {
+      ids.add(match[1].toLowerCase());
+    }
+    return text;
+  });
+  return [...ids];
+}
+
+// Links going out of the given pages. Links are only cached as they change,
+// so the server's are added while online.
+export async function getOutgoingLinks(pageIds: string[]) {
+  const db = await getDB();
+  const links = new Map<string, PageLink>();
+  for (const pageId of pageIds) {
+    const cached = await db.getAllFromIndex('page_links', 'by-source', pageId);
+    const remote = navigator.onLine
+      ? await storage.links.listForPage(pageId)
+      : [];
+    [...cached, ...remote]
+      .filter((link) => link.source_page_id === pageId)
+      .forEach((link) => links.set(link.id, link));
+  }
+  return [...links.values()];
+}
+
+// One link per pair of pages, so devices that add the same link offline
+// write the same row
+const getLinkId = (sourceId: string, targetId: string) =>
+  nameToUUID(`page-link:${sourceId}:${targetId}`);
+
+// Adds and removes the page's outgoing links to match its content. Only
+// pages known to this device are linked, as the server rejects links to
+// pages that don't exist.
+export async function syncPageLinks(page: Page) {
+  const db = await getDB();
+  const existing = await getOutgoingLinks([page.id]);
+
+  const targetIds: string[] = [];
+  for (const id of findLinkedPageIds(page.content)) {
+    if (id !== page.id && (await db.get('pages', id))) targetIds.push(id);
+  }
+
+  const now = new Date().toISOString();
+  const added: PageLink[] = [];
+  for (const targetId of targetIds) {
+    if (existing.some((link) => link.target_page_id === targetId)) continue;
+    added.push({
+      id: await getLinkId(page.id, targetId),
+      source_page_id: page.id,
+      target_page_id: targetId,
+      created_at: now,
+    });
+  }
+  const kept = existing.filter((link) =>
+    targetIds.includes(link.target_page_id)
+  );
+  const removed = existing.filter((link) => !kept.includes(link));
+
+  const tx = db.transaction('page_links', 'readwrite');
+  await Promise.all([
+    // Links only the server had are cached too, so lists stay complete
+    ...[...kept, ...added].map((link) => tx.store.put(link)),
+    ...removed.map((link) => tx.store.delete(link.id)),
+    tx.done,
+  ]);
+  broadcastChange(
+    'page_links',
+    [...existing, ...added].map((link) => link.id)
+  );
+
+  for (const link of added) {
+    await addToSyncQueue('create', 'page_links', link);
+  }
+  for (const link of removed) {
+    await addToSyncQueue('delete', 'page_links', link);
+  }
+}
+
+const SNIPPET_RADIUS = 60;
+
+// At most this many snippets are shown per page
+const MAX_SNIPPETS = 3;
+
+// The words around text[start..end]
+function excerpt(text: string, start: number, end: number) {
+  const from = Math.max(0, start - SNIPPET_RADIUS);
+  const to = Math.min(text.length, end + SNIPPET_RADIUS);
+  return `${from > 0 ? '…' : ''}${text.slice(from, to).trim()}${
+    to < text.length ? '…' : ''
+  }`;
+}
+
+// Each piece of text in the content's blocks, as HTML
+function getBlockStrings(content: Page['content']): string[] {
+  const strings: string[] = [];
+  for (const block of (content as EditorContent | undefined)?.blocks ?? []) {
+    mapStrings(block.data, (text) => {
+      strings.push(text);
+      return text;
+    });
+  }
+  return strings;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// An <a> pointing at `pageId`, capturing its text
+const linkTo = (pageId: string, flags: string) =>
+  new RegExp(
+    `<a\\b[^>]*/page/${escapeRegExp(pageId)}[^>]*>([\\s\\S]*?)</a>`,
+    flags
+  );
+
+// The text around each link to `pageId` in `content`
+export function findLinkSnippets(
+  content: Page['content'],
+  pageId: string
+): string[] {
+  const link = linkTo(pageId, 'i');
+  return getBlockStrings(content)
+    .flatMap((html) => {
+      const match = html.match(link);
+      if (!match) return [];
+      const text = stripHtml(html);
+      const label = stripHtml(match[1]);
+      const start = Math.max(0, text.indexOf(label));
+      return [excerpt(text, start, start + label.length)];
+    })
+    .slice(0, MAX_SNIPPETS);
+}
+
+// The text around each mention of `title` in `content` as a whole word,
+// whether or not it is linked
+export function findMentionSnippets(
+  content: Page['content'],
+  title: string
+): string[] {
+  const mention = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(title.trim())}(?![\\p{L}\\p{N}])`,
+    'iu'
+  );
+  return getBlockStrings(content)
+    .flatMap((html) => {
+      const text = stripHtml(html);
+      const match = mention.exec(text);
+      return match
+        ? [excerpt(text, match.index, match.index + match[0].length)]
+        : [];
+    })
+    .slice(0, MAX_SNIPPETS);
+}
+
+// `content` with each link to `pageId` replaced by its text
+export function removePageReferences<T>(content: T, pageId: string): T {
+  const link = linkTo(pageId, 'gi');
+  return mapStrings(content, (text) => text.replace(link, '$1'));
+}
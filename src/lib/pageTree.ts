@@ -0,0 +1,110 @@
+// Helpers for walking the page hierarchy built from `parent_id`
+
+import { Page } from '../types';
+import { compareKeys, generateKeyBetween } from './fractionalIndex';
+
+// Sibling order: pages by position, then those never given one, oldest first
+export function comparePages(a: Page, b: Page): number {
+  if (a.position && b.position) {
+    // Two devices may pick the same key for different pages
+    return compareKeys(a.position, b.position) || compareKeys(a.id, b.id);
+  }
+  if (a.position) return -1;
+  if (b.position) return 1;
+  return (
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime() ||
+    compareKeys(a.id, b.id)
+  );
+}
+
+// The pages directly under `parentId` (null for the top level), in order
+export function getChildPages(pages: Page[], parentId: string | null): Page[] {
+  return pages
+    .filter((page) => (page.parent_id ?? null) === parentId)
+    .sort(comparePages);
+}
+
+// Position for a new page that goes last under `parentId`. While some
+// siblings have never been ordered they sort by age, which already puts a
+// new page without a position last.
+export function getAppendPosition(
+  pages: Page[],
+  parentId: string | null
+): string | null {
+  const siblings = getChildPages(pages, parentId);
+  if (!siblings.every((page) => page.position)) return null;
+  return generateKeyBetween(
+    siblings[siblings.length - 1]?.position ?? null,
+    null
+  );
+}
+
+// Position right after `page` among its siblings, or last when the pages
+// around it were never ordered
+export function getPositionAfter(pages: Page[], page: Page): string | null {
+  const parentId = page.parent_id ?? null;
+  const siblings = getChildPages(pages, parentId);
+  const next = siblings[siblings.findIndex((p) => p.id === page.id) + 1];
+  if (
+    page.position &&
+    (!next || (next.position && compareKeys(page.position, next.position) < 0))
+  ) {
+    return generateKeyBetween(page.position, next?.position ?? null);
+  }
+  return getAppendPosition(pages, parentId);
+}
+
+// Ids of every page below `pageId`, parents before their children. Pages
+// already visited are skipped, so a cycle left by an older client can't
+// loop forever.
+export function getDescendantIds(pages: Page[], pageId: string): string[] {
+  const childrenOf = new Map<string, string[]>();
+  for (const page of pages) {
+    if (!page.parent_id) continue;
+    childrenOf.set(page.parent_id, [
+      ...(childrenOf.get(page.parent_id) ?? []),
+      page.id,
+    ]);
+  }
+
+  const seen = new Set([pageId]);
+  const descendants: string[] = [];
+  const queue = [pageId];
+  while (queue.length > 0) {
+    for (const childId of childrenOf.get(queue.shift()!) ?? []) {
+      if (seen.has(childId)) continue;
+      seen.add(childId);
+      descendants.push(childId);
+      queue.push(childId);
+    }
+  }
+  return descendants;
+}
+
+// A page can't become a child of itself or of one of its own sub-pages
+export function canMovePage(
+  pages: Page[],
+  pageId: string,
+  parentId: string | null
+): boolean {
+  if (parentId === null) return true;
+  return (
+    parentId !== pageId && !getDescendantIds(pages, pageId).includes(parentId)
+  );
+}
+
+// The page's ancestors, from the top level down to its parent
+export function getPagePath(pages: Page[], pageId: string): Page[] {
+  const byId = new Map(pages.map((page) => [page.id, page]));
+  const path: Page[] = [];
+  const seen = new Set([pageId]);
+  let parentId = byId.get(pageId)?.parent_id;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    seen.add(parentId);
+    path.unshift(parent);
+    parentId = parent.parent_id;
+  }
+  return path;
+}
@@ -0,0 +1,174 @@
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+import { getDB, hasPendingWrites } from './db';
+import { storage } from './storage';
+import { remoteTables } from './storage/supabaseBackend';
+import { broadcastChange, onBecomeSyncLeader } from './tabSync';
+import { isSameTimestamp } from './utils';
+import { PageLink } from '../types';
+
+// Anything exposing Supabase's channel API works, e.g. a local stand-in in tests
+export type RealtimeClient = Pick<SupabaseClient, 'channel' | 'removeChannel'>;
+
+type RealtimeOptions = {
+  client?: RealtimeClient;
+  // Called after reconnecting, to catch up on changes missed while away
+  onResync?: () => void;
+};
+
+type RemoteRow = { id: string; updated_at?: string; [key: string]: unknown };
+
+// Supabase tables mapped back to the IndexedDB stores that cache them
+const localStores: Record<string, 'pages' | 'todos'> = {
+  [remoteTables.pages]: 'pages',
+  [remoteTables.todos]: 'todos',
+};
+
+const RECONNECT_BASE_DELAY = 2 * 1000;
+const RECONNECT_MAX_DELAY = 60 * 1000;
+
+async function applyRemoteChange(
+  table: string,
+  payload: RealtimePostgresChangesPayload<RemoteRow>
+) {
+  const db = await getDB();
+
+  if (table === 'page_links') {
+    if (payload.eventType === 'DELETE') {
+      await db.delete('page_links', payload.old.id!);
+      broadcastChange('page_links', [payload.old.id!], true);
+    } else {
+      const link = payload.new as unknown as PageLink;
+      await db.put('page_links', link);
+      broadcastChange('page_links', [link.id], true);
+    }
+    return;
+  }
+
+  const store = localStores[table];
+  const id = (
+    payload.eventType === 'DELETE' ? payload.old.id : payload.new.id
+  )!;
+
+  // Local edits that are still queued win until they reach the server, and
+  // the server echoing them back must not clobber anything typed since
+  if (await hasPendingWrites(store, id)) return;
+
+  if (payload.eventType === 'DELETE') {
+    if (!(await db.get(store, id))) return;
+    await db.delete(store, id);
+  } else {
+    const cached = await db.get(store, id);
+    if (cached && isSameTimestamp(cached.updated_at, payload.new.updated_at)) {
+      return;
+    }
+    await db.put(store, payload.new as never);
+  }
+
+  broadcastChange(store, [id], true);
+}
+
+// Streams changes to the user's pages, todos and links into IndexedDB and the
+// stores. Only the sync leader tab subscribes; it relays to the others.
+export function startRealtimeSync(
+  userId: string,
+  { client: clientOption, onResync }: RealtimeOptions = {}
+) {
+  const backendClient = clientOption ?? storage.getRealtimeClient?.();
+  // Local backends have nothing to listen to
+  if (!backendClient) return () => {};
+  const client: RealtimeClient = backendClient;
+
+  let channel: RealtimeChannel | null = null;
+  let stopped = false;
+  let retries = 0;
+  let hasConnected = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const handle =
+    (table: string) => (payload: RealtimePostgresChangesPayload<RemoteRow>) => {
+      applyRemoteChange(table, payload).catch((error) =>
+        console.error(`Error applying realtime change to ${table}:`, error)
+      );
+    };
+
+  const disconnect = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (channel) {
+      client.removeChannel(channel);
+      channel = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    disconnect();
+    if (stopped || !navigator.onLine) return;
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** retries,
+      RECONNECT_MAX_DELAY
+    );
+    retries += 1;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    if (stopped || channel || !navigator.onLine) return;
+
+    channel = client
+      .channel(`hasnote-sync:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: remoteTables.pages,
+          filter: `user_id=eq.${userId}`,
+        },
+        handle(remoteTables.pages)
+      )
+      // RLS limits these to rows on the user's own pages
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: remoteTables.todos },
+        handle(remoteTables.todos)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'page_links' },
+        handle('page_links')
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          retries = 0;
+          if (hasConnected) onResync?.();
+          hasConnected = true;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          scheduleReconnect();
+        }
+      });
+  }
+
+  const handleOnline = () => {
+    retries = 0;
+    connect();
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', disconnect);
+  const stopWaiting = onBecomeSyncLeader(connect);
+
+  return () => {
+    stopped = true;
+    stopWaiting();
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', disconnect);
+    disconnect();
+  };
+}
@@ -0,0 +1,25 @@
+import { supabaseBackend } from './supabaseBackend';
+import { createIndexedDBBackend, createMemoryBackend } from './localBackend';
+import { StorageBackend } from './types';
+
+export type * from './types';
+
+// VITE_STORAGE_BACKEND picks where data lives beyond this device's cache:
+// 'supabase' (the default), 'local' for IndexedDB only, or 'memory' for a
+// throwaway session
+function createStorageBackend(): StorageBackend {
+  const backend = import.meta.env.VITE_STORAGE_BACKEND || 'supabase';
+
+  switch (backend) {
+    case 'supabase':
+      return supabaseBackend;
+    case 'local':
+      return createIndexedDBBackend();
+    case 'memory':
+      return createMemoryBackend();
+    default:
+      throw new Error(`Unknown storage backend "${backend}"`);
+  }
+}
+
+export const storage = createStorageBackend();
@@ -0,0 +1,465 @@
+import { openDB, IDBPDatabase } from 'idb';
+import { isSameTimestamp } from '../utils';
+import {
+  Page,
+  PageLink,
+  PageTemplate,
+  PageVersion,
+  TodoItem,
+} from '../../types';
+import {
+  AuthUser,
+  PageBackend,
+  PageSummary,
+  Profile,
+  RowBackend,
+  Secret,
+  StorageBackend,
+  Tombstone,
+  UserPreferenceRow,
+} from './types';
+
+// A backend that never leaves the device, for running HasNote without an
+// account. It plays the server's part for the sync engine, so everything
+// above it works the same as with Supabase.
+
+const tableNames = [
+  'pages',
+  'todos',
+  'page_links',
+  'page_versions',
+  'page_templates',
+  'user_preferences',
+  'user_pins',
+  'encrypted_secrets',
+  'users',
+  'deleted_records',
+  'session',
+] as const;
+
+type TableName = (typeof tableNames)[number];
+
+type LocalTable<T> = {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+type TableFactory = <T>(name: TableName) => LocalTable<T>;
+
+type DeletedRecord = Tombstone & { table_name: string };
+
+// There is only ever one user on a device
+const LOCAL_USER: AuthUser = {
+  id: '00000000-0000-0000-0000-000000000000',
+  email: 'local@hasnote',
+};
+
+// Pages listed without their content are written back with `content`
+// undefined, which must leave the stored content alone as an update on the
+// server does
+function definedFields<T extends object>(row: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(row).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function memoryTables(): TableFactory {
+  const tables = new Map<TableName, Map<string, unknown>>();
+
+  return <T>(name: TableName): LocalTable<T> => {
+    if (!tables.has(name)) tables.set(name, new Map());
+    const rows = tables.get(name) as Map<string, T>;
+
+    return {
+      get: async (key) => rows.get(key),
+      getAll: async () => [...rows.values()],
+      put: async (key, value) => {
+        rows.set(key, value);
+      },
+      delete: async (key) => {
+        rows.delete(key);
+      },
+    };
+  };
+}
+
+// Kept apart from the notion-clone cache, which can be thrown away and rebuilt
+// from whatever backend is in use
+function indexedDBTables(): TableFactory {
+  let dbPromise: Promise<IDBPDatabase> | null = null;
+  const getDB = () => {
+    dbPromise ??= openDB('hasnote-local', 3, {
+      // Every version only adds tables
+      upgrade(db) {
+        tableNames
+          .filter((name) => !db.objectStoreNames.contains(name))
+          .forEach((name) => db.createObjectStore(name));
+      },
+    });
+    return dbPromise;
+  };
+
+  return <T>(name: TableName): LocalTable<T> => ({
+    get: async (key) => (await getDB()).get(name, key),
+    getAll: async () => (await getDB()).getAll(name),
+    put: async (key, value) => {
+      await (await getDB()).put(name, value, key);
+    },
+    delete: async (key) => {
+      await (await getDB()).delete(name, key);
+    },
+  });
+}
+
+function createLocalBackend(
+  name: 'local' | 'memory',
+  table: TableFactory
+): StorageBackend {
+  const pagesTable = table<Page>('pages');
+  const todosTable = table<TodoItem>('todos');
+  const linksTable = table<PageLink>('page_links');
+  const versionsTable = table<PageVersion>('page_versions');
+  const templatesTable = table<PageTemplate>('page_templates');
+  const preferencesTable = table<UserPreferenceRow>('user_preferences');
+  const pinsTable = table<{ pin_hash: string; updated_at: string }>(
+    'user_pins'
+  );
+  const secretsTable = table<Secret & { user_id: string }>('encrypted_secrets');
+  const usersTable = table<Profile>('users');
+  const deletedTable = table<DeletedRecord>('deleted_records');
+  const sessionTable = table<{ signedIn: boolean }>('session');
+
+  // Stamps strictly increase, so two writes in the same millisecond still
+  // read as different versions
+  let lastStamp = 0;
+  const stamp = () => {
+    lastStamp = Math.max(Date.now(), lastStamp + 1);
+    return new Date(lastStamp).toISOString();
+  };
+
+  const isAtOrAfter = (a: string, b: string) =>
+    new Date(a).getTime() >= new Date(b).getTime();
+
+  function rowBackend<T extends { id: string; updated_at: string }>(
+    tableName: 'pages' | 'todos',
+    rows: LocalTable<T>,
+    // Deletes the rows that the server would cascade to
+    cascade: (id: string) => Promise<void> = async () => {},
+    toListing: (row: T) => T = (row) => row
+  ): RowBackend<T> {
+    return {
+      async listChanges(since) {
+        const changed = (await rows.getAll())
+          .filter((row) => !since || isAtOrAfter(row.updated_at, since))
+          .sort(
+            (a, b) =>
+              new Date(a.updated_at).getTime() -
+              new Date(b.updated_at).getTime()
+          )
+          .map(toListing);
+
+        const deleted = since
+          ? (await deletedTable.getAll())
+              .filter(
+                (record) =>
+                  record.table_name === tableName &&
+                  isAtOrAfter(record.deleted_at, since)
+              )
+              .map(({ record_id, deleted_at }) => ({ record_id, deleted_at }))
+          : [];
+
+        return { rows: changed, deleted };
+      },
+
+      async insert(row) {
+        if (await rows.get(row.id)) return null;
+        const stored = { ...row, updated_at: stamp() };
+        await rows.put(row.id, stored);
+        return stored;
+      },
+
+      async update(row) {
+        const existing = await rows.get(row.id);
+        if (!existing) return;
+        await rows.put(row.id, {
+          ...existing,
+          ...definedFields(row),
+          updated_at: stamp(),
+        });
+      },
+
+      async upsert(row) {
+        const existing = await rows.get(row.id);
+        await rows.put(row.id, {
+          ...existing,
+          ...definedFields(row),
+          updated_at: stamp(),
+        } as T);
+      },
+
+      async delete(id) {
+        if (!(await rows.get(id))) return;
+        await rows.delete(id);
+        await deletedTable.put(`${tableName}:${id}`, {
+          table_name: tableName,
+          record_id: id,
+          deleted_at: stamp(),
+        });
+        await cascade(id);
+      },
+    };
+  }
+
+  const deletePageChildren = async (pageId: string) => {
+    for (const todo of await todosTable.getAll()) {
+      if (todo.page_id === pageId) await todosTable.delete(todo.id);
+    }
+    for (const link of await linksTable.getAll()) {
+      if (link.source_page_id === pageId || link.target_page_id === pageId) {
+        await linksTable.delete(link.id);
+      }
+    }
+    for (const version of await versionsTable.getAll()) {
+      if (version.page_id === pageId) await versionsTable.delete(version.id);
+    }
+  };
+
+  const pages: PageBackend = {
+    ...rowBackend('pages', pagesTable, deletePageChildren, (page) => ({
+      ...page,
+      content: undefined,
+    })),
+
+    async get(id, newerThan) {
+      const page = await pagesTable.get(id);
+      if (!page) return null;
+      if (newerThan && !(new Date(page.updated_at) > new Date(newerThan))) {
+        return null;
+      }
+      return page;
+    },
+
+    async getSummaries(ids) {
+      const summaries: PageSummary[] = [];
+      for (const id of ids) {
+        const page = await pagesTable.get(id);
+        if (page) {
+          summaries.push({
+            id: page.id,
+            title: page.title,
+            type: page.type,
+            deleted_at: page.deleted_at,
+          });
+        }
+      }
+      return summaries;
+    },
+
+    async updateIfUnchanged(page, baseUpdatedAt) {
+      const existing = await pagesTable.get(page.id);
+      if (!existing || !isSameTimestamp(existing.updated_at, baseUpdatedAt)) {
+        return { status: 'conflict', server: existing ?? null };
+      }
+
+      const row = { ...existing, ...definedFields(page), updated_at: stamp() };
+      await pagesTable.put(page.id, row);
+      return { status: 'synced', row };
+    },
+  };
+
+  const preferenceKey = (userId: string, key: string) => `${userId}:${key}`;
+
+  // Signed in unless the user signed out, with no password to check
+  const getSessionUser = async () => {
+    const session = await sessionTable.get('current');
+    return session?.signedIn === false ? null : LOCAL_USER;
+  };
+
+  return {
+    name,
+
+    auth: {
+      getSessionUser,
+      getUser: getSessionUser,
+
+      async signIn() {
+        await sessionTable.put('current', { signedIn: true });
+        return LOCAL_USER;
+      },
+
+      async signUp() {
+        await sessionTable.put('current', { signedIn: true });
+        return false;
+      },
+
+      async signOut() {
+        await sessionTable.put('current', { signedIn: false });
+      },
+
+      // A service worker has its own memory, so only the IndexedDB variant
+      // can replay writes from there
+      async canSyncInBackground() {
+        return name === 'local';
+      },
+
+      async getProfile(userId) {
+        return (await usersTable.get(userId)) ?? {};
+      },
+
+      async updateProfile(userId, profile) {
+        await usersTable.put(userId, profile);
+      },
+    },
+
+    pages,
+
+    todos: rowBackend('todos', todosTable),
+
+    links: {
+      async list() {
+        return linksTable.getAll();
+      },
+
+      async listForPage(pageId) {
+        return (await linksTable.getAll()).filter(
+          (link) =>
+            link.source_page_id === pageId || link.target_page_id === pageId
+        );
+      },
+
+      async insert(link) {
+        if (await linksTable.get(link.id)) return;
+        await linksTable.put(link.id, link);
+      },
+
+      async delete(id) {
+        await linksTable.delete(id);
+      },
+    },
+
+    versions: {
+      async listForPage(pageId) {
+        return (await versionsTable.getAll())
+          .filter((version) => version.page_id === pageId)
+          .sort(
+            (a, b) =>
+              new Date(b.created_at).getTime() -
+              new Date(a.created_at).getTime()
+          )
+          .map((version) => ({ ...version, content: undefined }));
+      },
+
+      async get(id) {
+        return (await versionsTable.get(id)) ?? null;
+      },
+
+      async insert(version) {
+        if (await versionsTable.get(version.id)) return;
+        await versionsTable.put(version.id, version);
+      },
+    },
+
+    templates: {
+      async list() {
+        return (await templatesTable.getAll()).sort(
+          (a, b) =>
+            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        );
+      },
+
+      async insert(template) {
+        if (await templatesTable.get(template.id)) return;
+        await templatesTable.put(template.id, template);
+      },
+
+      async delete(id) {
+        await templatesTable.delete(id);
+      },
+    },
+
+    preferences: {
+      async get(userId, key) {
+        return (await preferencesTable.get(preferenceKey(userId, key)))
+          ?.preference_value;
+      },
+
+      async upsert(preference) {
+        await preferencesTable.put(
+          preferenceKey(preference.user_id, preference.preference_key),
+          preference
+        );
+      },
+
+      async delete(userId, key) {
+        await preferencesTable.delete(preferenceKey(userId, key));
+      },
+    },
+
+    pins: {
+      async getHash(userId) {
+        return (await pinsTable.get(userId))?.pin_hash ?? null;
+      },
+
+      async setHash(userId, pinHash) {
+        await pinsTable.put(userId, {
+          pin_hash: pinHash,
+          updated_at: stamp(),
+        });
+      },
+    },
+
+    secrets: {
+      async list(userId) {
+        return (await secretsTable.getAll())
+          .filter((secret) => secret.user_id === userId)
+          .sort(
+            (a, b) =>
+              new Date(b.created_at).getTime() -
+              new Date(a.created_at).getTime()
+          );
+      },
+
+      async getEncryptedData(id) {
+        return (await secretsTable.get(id))?.encrypted_data ?? null;
+      },
+
+      async insert(userId, secretName, encryptedData) {
+        const now = stamp();
+        const id = crypto.randomUUID();
+        await secretsTable.put(id, {
+          id,
+          user_id: userId,
+          name: secretName,
+          encrypted_data: encryptedData,
+          created_at: now,
+          updated_at: now,
+        });
+      },
+
+      async update(userId, id, encryptedData) {
+        const secret = await secretsTable.get(id);
+        if (!secret || secret.user_id !== userId) return;
+        await secretsTable.put(id, {
+          ...secret,
+          encrypted_data: encryptedData,
+          updated_at: stamp(),
+        });
+      },
+
+      async delete(id) {
+        await secretsTable.delete(id);
+      },
+    },
+  };
+}
+
+export function createIndexedDBBackend() {
+  return createLocalBackend('local', indexedDBTables());
+}
+
+// Nothing survives a reload, and each tab has its own copy
+export function createMemoryBackend() {
+  return createLocalBackend('memory', memoryTables());
+}
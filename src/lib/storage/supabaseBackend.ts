@@ -0,0 +1,407 @@
+import { getSupabase } from '../supabase';
+import { getWorkerAccessToken } from '../workerSession';
+import {
+  Page,
+  PageLink,
+  PageTemplate,
+  PageVersion,
+  TodoItem,
+} from '../../types';
+import {
+  AuthUser,
+  PageBackend,
+  RowBackend,
+  StorageBackend,
+  Tombstone,
+} from './types';
+
+// Local store names mapped to the Supabase tables they mirror. Everything
+// that talks to Supabase about a local store goes through this map.
+export const remoteTables = {
+  pages: 'pages',
+  todos: 'todo_items',
+  user_preferences: 'user_preferences',
+} as const;
+
+// Postgres unique_violation: the row was already inserted
+const DUPLICATE_KEY = '23505';
+
+// Page content can be large, so listings leave it out and it is fetched when
+// the page is opened
+const VERSION_LIST_COLUMNS =
+  'id, page_id, user_id, title, source, restored_from, created_at';
+
+const PAGE_LIST_COLUMNS =
+  'id, title, type, created_at, updated_at, parent_id, position, is_pinned, deleted_at, journal_date, user_id';
+
+function toAuthUser(user: { id: string; email?: string } | null | undefined) {
+  return user ? ({ id: user.id, email: user.email! } as AuthUser) : null;
+}
+
+function createRowBackend<T extends { id: string }>(
+  table: string,
+  listColumns: string
+): RowBackend<T> {
+  return {
+    async listChanges(since) {
+      const supabase = getSupabase();
+
+      // gte rather than gt: a row stamped in the same instant as the checkpoint
+      // may have committed after it, and pulling a row twice is harmless
+      let query = supabase
+        .from(table)
+        .select(listColumns)
+        .order('updated_at', { ascending: true });
+      if (since) {
+        query = query.gte('updated_at', since);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+
+      let deleted: Tombstone[] = [];
+      if (since) {
+        const { data, error } = await supabase
+          .from('deleted_records')
+          .select('record_id, deleted_at')
+          .eq('table_name', table)
+          .gte('deleted_at', since);
+        if (error) throw error;
+        deleted = data;
+      }
+
+      return { rows: data as unknown as T[], deleted };
+    },
+
+    async insert(row) {
+      const { data, error } = await getSupabase()
+        .from(table)
+        .insert(row)
+        .select();
+      if (error) {
+        if (error.code === DUPLICATE_KEY) return null;
+        throw error;
+      }
+      return data[0] as T;
+    },
+
+    async update(row) {
+      const { error } = await getSupabase()
+        .from(table)
+        .update(row)
+        .eq('id', row.id);
+      if (error) throw error;
+    },
+
+    async upsert(row) {
+      const { error } = await getSupabase().from(table).upsert(row);
+      if (error) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await getSupabase().from(table).delete().eq('id', id);
+      if (error) throw error;
+    },
+  };
+}
+
+const pages: PageBackend = {
+  ...createRowBackend<Page>(remoteTables.pages, PAGE_LIST_COLUMNS),
+
+  async get(id, newerThan) {
+    let query = getSupabase().from('pages').select('*').eq('id', id);
+    if (newerThan) {
+      query = query.gt('updated_at', newerThan);
+    }
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async getSummaries(ids) {
+    const { data, error } = await getSupabase()
+      .from('pages')
+      .select('id, title, type, deleted_at')
+      .in('id', ids);
+    if (error) throw error;
+    return data;
+  },
+
+  // Edits from another device are never silently overwritten: the update only
+  // matches while the server row is the version the change was based on
+  async updateIfUnchanged(page, baseUpdatedAt) {
+    const supabase = getSupabase();
+    const { data, error } = await supabase
+      .from('pages')
+      .update(page)
+      .eq('id', page.id)
+      .eq('updated_at', baseUpdatedAt)
+      .select();
+    if (error) throw error;
+    if (data.length > 0) return { status: 'synced', row: data[0] };
+
+    const { data: server, error: fetchError } = await supabase
+      .from('pages')
+      .select('*')
+      .eq('id', page.id)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    return { status: 'conflict', server };
+  },
+};
+
+export const supabaseBackend: StorageBackend = {
+  name: 'supabase',
+
+  auth: {
+    async getSessionUser() {
+      const {
+        data: { session },
+      } = await getSupabase().auth.getSession();
+      return toAuthUser(session?.user);
+    },
+
+    async getUser() {
+      const { data } = await getSupabase().auth.getUser();
+      return toAuthUser(data.user);
+    },
+
+    async signIn(email, password) {
+      const { data, error } = await getSupabase().auth.signInWithPassword({
+        email,
+        password,
+      });
+      if (error) throw error;
+      return toAuthUser(data.user);
+    },
+
+    // New accounts are confirmed by email before they can sign in
+    async signUp(email, password) {
+      const { error } = await getSupabase().auth.signUp({ email, password });
+      if (error) throw error;
+      return true;
+    },
+
+    async signOut() {
+      const { error } = await getSupabase().auth.signOut();
+      if (error) throw error;
+    },
+
+    async canSyncInBackground() {
+      return !!(await getWorkerAccessToken());
+    },
+
+    async getProfile(userId) {
+      const { data, error } = await getSupabase()
+        .from('users')
+        .select('*')
+        .eq('id', userId)
+        .single();
+      if (error) throw error;
+      return data ? { name: data.name, avatar_url: data.avatar_url } : null;
+    },
+
+    async updateProfile(userId, profile) {
+      const { error } = await getSupabase()
+        .from('users')
+        .update(profile)
+        .eq('id', userId);
+      if (error) throw error;
+    },
+  },
+
+  pages,
+
+  todos: createRowBackend<TodoItem>(remoteTables.todos, '*'),
+
+  links: {
+    async list() {
+      const { data, error } = await getSupabase()
+        .from('page_links')
+        .select('*');
+      if (error) throw error;
+      return data as PageLink[];
+    },
+
+    async listForPage(pageId) {
+      const { data, error } = await getSupabase()
+        .from('page_links')
+        .select('*')
+        .or(`source_page_id.eq.${pageId},target_page_id.eq.${pageId}`);
+      if (error) throw error;
+      return data as PageLink[];
+    },
+
+    async insert(link) {
+      const { error } = await getSupabase().from('page_links').insert(link);
+      if (error && error.code !== DUPLICATE_KEY) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await getSupabase()
+        .from('page_links')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  versions: {
+    async listForPage(pageId) {
+      const { data, error } = await getSupabase()
+        .from('page_versions')
+        .select(VERSION_LIST_COLUMNS)
+        .eq('page_id', pageId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as PageVersion[];
+    },
+
+    async get(id) {
+      const { data, error } = await getSupabase()
+        .from('page_versions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async insert(version) {
+      const { error } = await getSupabase()
+        .from('page_versions')
+        .insert(version);
+      if (error && error.code !== DUPLICATE_KEY) throw error;
+    },
+  },
+
+  templates: {
+    async list() {
+      const { data, error } = await getSupabase()
+        .from('page_templates')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as PageTemplate[];
+    },
+
+    async insert(template) {
+      const { error } = await getSupabase()
+        .from('page_templates')
+        .insert(template);
+      if (error && error.code !== DUPLICATE_KEY) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await getSupabase()
+        .from('page_templates')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  // Preferences are keyed by (user_id, preference_key) rather than id
+  preferences: {
+    async get(userId, key) {
+      const { data, error } = await getSupabase()
+        .from(remoteTables.user_preferences)
+        .select('preference_value')
+        .eq('user_id', userId)
+        .eq('preference_key', key)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.preference_value;
+    },
+
+    async upsert(preference) {
+      const { error } = await getSupabase()
+        .from(remoteTables.user_preferences)
+        .upsert(preference, { onConflict: 'user_id,preference_key' });
+      if (error) throw error;
+    },
+
+    async delete(userId, key) {
+      const { error } = await getSupabase()
+        .from(remoteTables.user_preferences)
+        .delete()
+        .eq('user_id', userId)
+        .eq('preference_key', key);
+      if (error) throw error;
+    },
+  },
+
+  pins: {
+    async getHash(userId) {
+      const { data, error } = await getSupabase()
+        .from('user_pins')
+        .select('pin_hash')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.pin_hash ?? null;
+    },
+
+    async setHash(userId, pinHash) {
+      const { error } = await getSupabase().from('user_pins').upsert(
+        {
+          user_id: userId,
+          pin_hash: pinHash,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+      if (error) throw error;
+    },
+  },
+
+  secrets: {
+    async list(userId) {
+      const { data, error } = await getSupabase()
+        .from('encrypted_secrets')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getEncryptedData(id) {
+      const { data, error } = await getSupabase()
+        .from('encrypted_secrets')
+        .select('encrypted_data')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.encrypted_data ?? null;
+    },
+
+    async insert(userId, name, encryptedData) {
+      const { error } = await getSupabase().from('encrypted_secrets').insert({
+        user_id: userId,
+        name,
+        encrypted_data: encryptedData,
+      });
+      if (error) throw error;
+    },
+
+    async update(userId, id, encryptedData) {
+      const { error } = await getSupabase()
+        .from('encrypted_secrets')
+        .update({ encrypted_data: encryptedData })
+        .eq('id', id)
+        .eq('user_id', userId);
+      if (error) throw error;
+    },
+
+    async delete(id) {
+      const { error } = await getSupabase()
+        .from('encrypted_secrets')
+        .delete()
+        .eq('id', id);
+      if (error) throw error;
+    },
+  },
+
+  getRealtimeClient: getSupabase,
+};
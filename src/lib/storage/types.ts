@@ -0,0 +1,137 @@
+import type { RealtimeClient } from '../realtime';
+import {
+  Page,
+  PageLink,
+  PageTemplate,
+  PageVersion,
+  TodoItem,
+  User,
+} from '../../types';
+
+export type AuthUser = Pick<User, 'id' | 'email'>;
+
+export type Profile = Pick<User, 'name' | 'avatar_url'>;
+
+export type Tombstone = { record_id: string; deleted_at: string };
+
+// Rows changed since a checkpoint, plus the ones deleted since then. Without a
+// checkpoint every row is listed and there are no tombstones.
+export type RowChanges<T> = { rows: T[]; deleted: Tombstone[] };
+
+export type PageSummary = Pick<Page, 'id' | 'title' | 'type' | 'deleted_at'>;
+
+export type PageWriteOutcome =
+  | { status: 'synced'; row?: Page }
+  | { status: 'conflict'; server: Page | null };
+
+export type UserPreferenceRow = {
+  user_id: string;
+  preference_key: string;
+  preference_value: unknown;
+  updated_at: string;
+};
+
+export type Secret = {
+  id: string;
+  name: string;
+  encrypted_data: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export interface AuthBackend {
+  // The signed-in user as far as the stored session knows, without a round trip
+  getSessionUser(): Promise<AuthUser | null>;
+  // The signed-in user, checked with the backend where it has one
+  getUser(): Promise<AuthUser | null>;
+  signIn(email: string, password: string): Promise<AuthUser | null>;
+  // Resolves to whether the new account still has to be confirmed by email
+  signUp(email: string, password: string): Promise<boolean>;
+  signOut(): Promise<void>;
+  // Whether the service worker can write on the user's behalf right now
+  canSyncInBackground(): Promise<boolean>;
+  getProfile(userId: string): Promise<Profile | null>;
+  updateProfile(userId: string, profile: Profile): Promise<void>;
+}
+
+// Writes stamp their own updated_at, the way the server's triggers do
+export interface RowBackend<T extends { id: string }> {
+  listChanges(since?: string): Promise<RowChanges<T>>;
+  // Resolves to the stored row, or null when a row with that id already exists
+  insert(row: T): Promise<T | null>;
+  update(row: Partial<T> & { id: string }): Promise<void>;
+  upsert(row: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PageBackend extends RowBackend<Page> {
+  // Listings leave content out; this returns the full page, or null when it
+  // is missing or not newer than `newerThan`
+  get(id: string, newerThan?: string): Promise<Page | null>;
+  // Pages that don't exist are left out
+  getSummaries(ids: string[]): Promise<PageSummary[]>;
+  // Only writes if the stored page is still at `baseUpdatedAt`
+  updateIfUnchanged(
+    page: Page,
+    baseUpdatedAt: string
+  ): Promise<PageWriteOutcome>;
+}
+
+export interface LinkBackend {
+  list(): Promise<PageLink[]>;
+  listForPage(pageId: string): Promise<PageLink[]>;
+  insert(link: PageLink): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Versions are only ever added, and go with their page
+export interface VersionBackend {
+  // Newest first, without content
+  listForPage(pageId: string): Promise<PageVersion[]>;
+  get(id: string): Promise<PageVersion | null>;
+  insert(version: PageVersion): Promise<void>;
+}
+
+// Templates are replaced rather than edited
+export interface TemplateBackend {
+  // Newest first
+  list(): Promise<PageTemplate[]>;
+  insert(template: PageTemplate): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface PreferenceBackend {
+  get(userId: string, key: string): Promise<unknown>;
+  upsert(preference: UserPreferenceRow): Promise<void>;
+  delete(userId: string, key: string): Promise<void>;
+}
+
+export interface PinBackend {
+  getHash(userId: string): Promise<string | null>;
+  setHash(userId: string, pinHash: string): Promise<void>;
+}
+
+export interface SecretBackend {
+  list(userId: string): Promise<Secret[]>;
+  getEncryptedData(id: string): Promise<string | null>;
+  insert(userId: string, name: string, encryptedData: string): Promise<void>;
+  update(userId: string, id: string, encryptedData: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Everything HasNote keeps outside the device's cache. IndexedDB stays the
+// working copy either way; the sync queue and delta pulls talk to a backend.
+export interface StorageBackend {
+  name: 'supabase' | 'local' | 'memory';
+  auth: AuthBackend;
+  pages: PageBackend;
+  todos: RowBackend<TodoItem>;
+  links: LinkBackend;
+  versions: VersionBackend;
+  templates: TemplateBackend;
+  preferences: PreferenceBackend;
+  pins: PinBackend;
+  secrets: SecretBackend;
+  // Backends that can push changes as they happen
+  getRealtimeClient?: () => RealtimeClient;
+}
@@ -0,0 +1,190 @@
+import { getDB } from './db';
+import { Page } from '../types';
+
+export type StorageEstimate = {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes the browser will let this origin use
+  persisted: boolean; // Whether the browser may clear the data under pressure
+};
+
+// Content of the most recently opened pages stays cached. Older pages keep
+// their listing entry and fetch their content again when opened.
+const MAX_CACHED_PAGES = 50;
+// Once usage passes this share of the quota, only a few pages keep theirs
+const STORAGE_PRESSURE = 0.8;
+const MIN_CACHED_PAGES = 10;
+
+// Where PageDetailPage used to keep unsaved editor content
+const LEGACY_DRAFT_KEY = /^page-(.+)-cache$/;
+
+export async function getDraft(pageId: string) {
+  await migrateLocalStorageDrafts();
+  const db = await getDB();
+  return (await db.get('drafts', pageId))?.content;
+}
+
+export async function saveDraft(pageId: string, content: Page['content']) {
+  const db = await getDB();
+  await db.put('drafts', {
+    page_id: pageId,
+    content,
+    saved_at: new Date().toISOString(),
+  });
+}
+
+export async function deleteDraft(pageId: string) {
+  const db = await getDB();
+  await db.delete('drafts', pageId);
+}
+
+let legacyDraftsMoved: Promise<void> | null = null;
+
+async function moveLegacyDrafts() {
+  if (typeof localStorage === 'undefined') return;
+
+  const db = await getDB();
+  for (const key of Object.keys(localStorage)) {
+    const match = key.match(LEGACY_DRAFT_KEY);
+    if (!match) continue;
+
+    try {
+      const content = JSON.parse(localStorage.getItem(key)!);
+      // A draft already in IndexedDB was written later
+      if (content?.blocks && !(await db.get('drafts', match[1]))) {
+        await db.put('drafts', {
+          page_id: match[1],
+          content,
+          saved_at: new Date().toISOString(),
+        });
+      }
+    } catch (error) {
+      console.warn(`Dropping unreadable draft "${key}":`, error);
+    }
+    localStorage.removeItem(key);
+  }
+}
+
+// Drafts in localStorage were never cleaned up, so they are moved into
+// IndexedDB where eviction and the cache rebuild know about them
+export function migrateLocalStorageDrafts() {
+  legacyDraftsMoved ??= moveLegacyDrafts();
+  return legacyDraftsMoved;
+}
+
+export async function recordPageOpened(pageId: string) {
+  const db = await getDB();
+  await db.put('page_access', { page_id: pageId, opened_at: Date.now() });
+}
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted
+    ? await navigator.storage.persisted()
+    : false;
+  return { usage, quota, persisted };
+}
+
+// Asks the browser not to clear this origin's data when space runs low.
+// Some browsers decide on their own, others ask the user.
+export async function requestPersistentStorage() {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+// How many pages have their content cached on this device
+export async function countCachedPages() {
+  const db = await getDB();
+  const pages = await db.getAll('pages');
+  return pages.filter((page) => page.content !== undefined).length;
+}
+
+// Drops the cached content of all but the `keep` most recently opened pages.
+// Pages in `openPageIds`, with drafts or with writes still queued keep
+// theirs, since the server copy would be older. Without `keep` the limit
+// follows how full the quota is. Cached version content is trimmed as well.
+export async function evictPageContent(
+  openPageIds: string[] = [],
+  keep?: number
+) {
+  if (keep === undefined) {
+    const estimate = await estimateStorage();
+    keep =
+      estimate &&
+      estimate.quota > 0 &&
+      estimate.usage / estimate.quota > STORAGE_PRESSURE
+        ? MIN_CACHED_PAGES
+        : MAX_CACHED_PAGES;
+  }
+
+  const db = await getDB();
+  const tx = db.transaction(
+    ['pages', 'page_access', 'drafts', 'syncQueue', 'page_versions'],
+    'readwrite'
+  );
+  const [pages, access, draftIds, queued, versions] = await Promise.all([
+    tx.objectStore('pages').getAll(),
+    tx.objectStore('page_access').getAll(),
+    tx.objectStore('drafts').getAllKeys(),
+    tx.objectStore('syncQueue').getAll(),
+    tx.objectStore('page_versions').getAll(),
+  ]);
+
+  const retained = new Set<string>([
+    ...openPageIds,
+    ...draftIds,
+    ...queued
+      .filter((item) => item.table === 'pages')
+      .map((item) => item.data?.id),
+  ]);
+  const openedAt = new Map(access.map((a) => [a.page_id, a.opened_at]));
+
+  const evicted = pages
+    .filter((page) => page.content !== undefined && !retained.has(page.id))
+    .sort((a, b) => (openedAt.get(b.id) ?? 0) - (openedAt.get(a.id) ?? 0))
+    .slice(keep);
+
+  // Only the newest version of a page that keeps its content keeps its own
+  const cachedPageIds = new Set(
+    pages.filter((page) => page.content !== undefined).map((page) => page.id)
+  );
+  evicted.forEach((page) => cachedPageIds.delete(page.id));
+  const newestVersions = new Map<string, (typeof versions)[number]>();
+  for (const version of versions) {
+    const newest = newestVersions.get(version.page_id);
+    if (!newest || version.created_at > newest.created_at) {
+      newestVersions.set(version.page_id, version);
+    }
+  }
+  const evictedVersions = versions.filter(
+    (version) =>
+      version.content !== undefined &&
+      (!cachedPageIds.has(version.page_id) ||
+        newestVersions.get(version.page_id) !== version)
+  );
+
+  await Promise.all([
+    ...evicted.map((page) =>
+      tx.objectStore('pages').put({ ...page, content: undefined })
+    ),
+    ...evictedVersions.map((version) =>
+      tx.objectStore('page_versions').put({ ...version, content: undefined })
+    ),
+    tx.done,
+  ]);
+  return evicted.length;
+}
+
+// Run once the user is signed in: tidies up old drafts, asks to keep the
+// data and trims the content cache
+export async function maintainLocalStorage(openPageIds: string[] = []) {
+  await migrateLocalStorageDrafts();
+  await requestPersistentStorage();
+  await evictPageContent(openPageIds);
+}
@@ -1,10 +1,37 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getWorkerAccessToken, saveWorkerSession } from './workerSession';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('Missing Supabase credentials');
-}
+// Created on first use, so running on the local backend needs no Supabase
+// credentials
+export function getSupabase() {
+  if (client) return client;
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    console.error('Missing Supabase credentials');
+  }
+
+  // This module is also bundled into the service worker, which has no session
+  // of its own and borrows the app's access token instead
+  const isServiceWorker = typeof window === 'undefined';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+  client = isServiceWorker
+    ? createClient(supabaseUrl, supabaseAnonKey, {
+        accessToken: getWorkerAccessToken,
+      })
+    : createClient(supabaseUrl, supabaseAnonKey);
+
+  if (!isServiceWorker) {
+    client.auth.onAuthStateChange((_event, session) => {
+      saveWorkerSession(session).catch((error) =>
+        console.error('Error sharing session with the service worker:', error)
+      );
+    });
+  }
+
+  return client;
+}
@@ -0,0 +1,90 @@
+// Coordination between HasNote tabs open in the same browser
+
+export type SharedStore =
+  | 'pages'
+  | 'todos'
+  | 'user_preferences'
+  | 'page_links'
+  | 'page_versions'
+  | 'page_templates';
+
+export type TabMessage =
+  | { type: 'changed'; store: SharedStore; ids: string[] }
+  | { type: 'sync-requested' }
+  | { type: 'sync-event'; event: unknown };
+
+const LEADER_LOCK = 'hasnote-sync-leader';
+
+const channel =
+  typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel('hasnote')
+    : null;
+
+const tabListeners = new Set<(message: TabMessage) => void>();
+const leaderListeners = new Set<() => void>();
+
+let isLeader = false;
+
+channel?.addEventListener('message', (event: MessageEvent<TabMessage>) => {
+  tabListeners.forEach((listener) => listener(event.data));
+});
+
+export function postToTabs(message: TabMessage) {
+  channel?.postMessage(message);
+}
+
+// Tell other tabs which rows of a store were written to IndexedDB. Writes
+// that did not come from this tab's own stores announce it here as well.
+export function broadcastChange(
+  store: SharedStore,
+  ids: string[],
+  includeThisTab = false
+) {
+  if (ids.length === 0) return;
+
+  const message: TabMessage = { type: 'changed', store, ids };
+  postToTabs(message);
+  if (includeThisTab) {
+    tabListeners.forEach((listener) => listener(message));
+  }
+}
+
+export function subscribeToTabs(listener: (message: TabMessage) => void) {
+  tabListeners.add(listener);
+  return () => {
+    tabListeners.delete(listener);
+  };
+}
+
+// Only the leader tab drains the sync queue
+export function isSyncLeader() {
+  return isLeader;
+}
+
+export function onBecomeSyncLeader(listener: () => void) {
+  leaderListeners.add(listener);
+  if (isLeader) listener();
+  return () => {
+    leaderListeners.delete(listener);
+  };
+}
+
+function becomeLeader() {
+  isLeader = true;
+  leaderListeners.forEach((listener) => listener());
+}
+
+// The service worker loads this module too, but only tabs take part in the
+// election; the worker replays through Background Sync instead
+if (typeof window !== 'undefined') {
+  if (navigator.locks) {
+    // The lock is held until the tab closes, then the next waiting tab gets it
+    navigator.locks.request(LEADER_LOCK, () => {
+      becomeLeader();
+      return new Promise<void>(() => {});
+    });
+  } else {
+    // Without Web Locks there is no way to elect, so every tab syncs
+    becomeLeader();
+  }
+}
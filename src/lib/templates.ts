@@ -0,0 +1,65 @@
+// Filling in {{variables}} in page templates
+
+import { format } from 'date-fns';
+import { TemplatePage } from '../types';
+import { mapStrings } from './utils';
+
+// Filled in automatically when a page is created from a template. Any other
+// {{name}} in a template is asked for at creation time.
+export const BUILT_IN_VARIABLES = ['title', 'date', 'time', 'weekday'];
+
+const VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export function getBuiltInValues(
+  title: string,
+  now = new Date()
+): Record<string, string> {
+  return {
+    title,
+    date: format(now, 'yyyy-MM-dd'),
+    time: format(now, 'HH:mm'),
+    weekday: format(now, 'EEEE'),
+  };
+}
+
+// Every string in a template, including those nested in EditorJS data
+function collectStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, strings));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectStrings(item, strings));
+  }
+  return strings;
+}
+
+// Variables used in the template that have to be asked for, in the order
+// they first appear
+export function findCustomVariables(page: TemplatePage): string[] {
+  const names = new Set<string>();
+  for (const text of collectStrings(page)) {
+    for (const match of text.matchAll(VARIABLE)) {
+      if (!BUILT_IN_VARIABLES.includes(match[1])) names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+// Replaces variables in every string of `value`. Variables without a value
+// are left as they are.
+export function fillVariables<T>(value: T, values: Record<string, string>): T {
+  return mapStrings(value, (text) =>
+    text.replace(VARIABLE, (placeholder, name: string) =>
+      name in values ? values[name] : placeholder
+    )
+  );
+}
+
+// Number of pages in the template, counting sub-pages
+export function countTemplatePages(page: TemplatePage): number {
+  return page.children.reduce(
+    (count, child) => count + countTemplatePages(child),
+    1
+  );
+}
@@ -17,11 +17,87 @@ export const formatShortDateTime = (date: string) => {
   return formatDistanceToNow(new Date(date), { addSuffix: true });
 };
 
+// Server timestamps carry microseconds and may be formatted differently from
+// the ones we wrote, so compare them as instants rather than strings
+export function isSameTimestamp(a?: string, b?: string): boolean {
+  return !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+// Applies `fn` to every string in `value`, including those nested in arrays
+// and objects such as EditorJS data
+export function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    ) as T;
+  }
+  return value;
+}
+
+// Scores how well `text` matches `query` when the query's characters appear
+// in order, not necessarily next to each other. Higher is better, null is no
+// match. Consecutive characters and word starts score extra.
+export function fuzzyMatch(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Shorter texts are closer matches
+  return score - haystack.length / 100;
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.slice(0, maxLength) + '...';
 }
 
+// The same `name` always gives the same UUID, shaped as a version 8 (custom)
+// UUID. Lets devices pick matching ids for rows they create independently.
+export async function nameToUUID(name: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(name)
+  );
+  const bytes = new Uint8Array(digest).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x80;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
 export function generateUUID(): string {
   return crypto.randomUUID();
 }
@@ -0,0 +1,56 @@
+import { openDB, DBSchema } from 'idb';
+import type { Session } from '@supabase/supabase-js';
+
+// The service worker can't read the session Supabase keeps in localStorage, so
+// the app mirrors the current access token here. The worker only uses it while
+// it is valid and never refreshes it: refreshing would rotate the refresh token
+// out from under the app.
+
+type WorkerSession = {
+  id: 'current';
+  access_token: string;
+  expires_at: number; // Seconds since the epoch, as Supabase reports it
+};
+
+interface WorkerSessionDB extends DBSchema {
+  session: {
+    key: string;
+    value: WorkerSession;
+  };
+}
+
+// Leave some time for the writes themselves
+const EXPIRY_MARGIN = 60;
+
+function openSessionDB() {
+  return openDB<WorkerSessionDB>('hasnote-auth', 1, {
+    upgrade(db) {
+      db.createObjectStore('session', { keyPath: 'id' });
+    },
+  });
+}
+
+export async function saveWorkerSession(session: Session | null) {
+  const db = await openSessionDB();
+  if (session?.expires_at) {
+    await db.put('session', {
+      id: 'current',
+      access_token: session.access_token,
+      expires_at: session.expires_at,
+    });
+  } else {
+    await db.delete('session', 'current');
+  }
+  db.close();
+}
+
+export async function getWorkerAccessToken() {
+  const db = await openSessionDB();
+  const session = await db.get('session', 'current');
+  db.close();
+
+  if (!session || session.expires_at - EXPIRY_MARGIN <= Date.now() / 1000) {
+    return null;
+  }
+  return session.access_token;
+}
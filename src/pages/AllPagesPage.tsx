@@ -1,15 +1,20 @@
 import React, { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
-import { PenSquare, ListTodo, Pin, Search, Folder } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Pin, Search, Folder, Copy } from 'lucide-react';
 import { usePageStore } from '../store/pageStore';
 import { Page } from '../types';
 import { formatDate } from '../lib/utils';
+import { getChildPages } from '../lib/pageTree';
 import Spinner from '../components/ui/Spinner';
+import DuplicatePageDialog from '../components/pages/DuplicatePageDialog';
+import PageIcon from '../components/pages/PageIcon';
 
 const AllPagesPage: React.FC = () => {
   const { pages, loading, error, fetchPages } = usePageStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredPages, setFilteredPages] = useState<Page[]>([]);
+  const [duplicatingPage, setDuplicatingPage] = useState<Page | null>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchPages();
@@ -26,23 +31,31 @@ const AllPagesPage: React.FC = () => {
     }
   }, [searchTerm, pages]);
 
-  const renderPageIcon = (page: Page) => {
-    if (page.type === 'note') {
-      return <PenSquare size={20} className="text-blue-600" />;
-    } else if (page.type === 'todo') {
-      return <ListTodo size={20} className="text-indigo-600" />;
-    }
-  };
+  const renderPageIcon = (page: Page) => (
+    <PageIcon type={page.type} size={20} />
+  );
+
+  const renderDuplicateButton = (page: Page) => (
+    <button
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDuplicatingPage(page);
+      }}
+      className="p-1.5 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
+      title="Duplicate"
+    >
+      <Copy size={16} />
+    </button>
+  );
 
-  // Group pages by parent_id
+  // Group pages by parent_id, in the same order as the sidebar
   const groupPagesByParent = () => {
-    const rootPages = filteredPages.filter((page) => page.parent_id === null);
+    const rootPages = getChildPages(filteredPages, null);
 
     // For each root page, find its children
     return rootPages.map((rootPage) => {
-      const children = filteredPages.filter(
-        (page) => page.parent_id === rootPage.id
-      );
+      const children = getChildPages(filteredPages, rootPage.id);
       return { rootPage, children };
     });
   };
@@ -106,7 +119,7 @@ const AllPagesPage: React.FC = () => {
           >
             <Link
               to={`/page/${rootPage.id}`}
-              className="flex items-center p-4 bg-slate-50 hover:bg-slate-100 transition-colors"
+              className="group flex items-center p-4 bg-slate-50 hover:bg-slate-100 transition-colors"
             >
               <div className="mr-3">{renderPageIcon(rootPage)}</div>
 
@@ -129,6 +142,8 @@ const AllPagesPage: React.FC = () => {
                   <span>Updated {formatDate(rootPage.updated_at)}</span>
                 </p>
               </div>
+
+              {renderDuplicateButton(rootPage)}
             </Link>
 
             {children.length > 0 && (
@@ -137,7 +152,7 @@ const AllPagesPage: React.FC = () => {
                   <Link
                     key={child.id}
                     to={`/page/${child.id}`}
-                    className="flex items-center p-3 hover:bg-slate-50 transition-colors"
+                    className="group flex items-center p-3 hover:bg-slate-50 transition-colors"
                   >
                     <div className="mr-3">{renderPageIcon(child)}</div>
 
@@ -155,6 +170,8 @@ const AllPagesPage: React.FC = () => {
                         <span>Updated {formatDate(child.updated_at)}</span>
                       </p>
                     </div>
+
+                    {renderDuplicateButton(child)}
                   </Link>
                 ))}
               </div>
@@ -162,6 +179,17 @@ const AllPagesPage: React.FC = () => {
           </div>
         ))}
       </div>
+
+      {duplicatingPage && (
+        <DuplicatePageDialog
+          page={duplicatingPage}
+          onClose={() => setDuplicatingPage(null)}
+          onDuplicated={(copyId) => {
+            setDuplicatingPage(null);
+            navigate(`/page/${copyId}`);
+          }}
+        />
+      )}
     </div>
   );
 };
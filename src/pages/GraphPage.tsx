@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePageStore } from '../store/pageStore';
+import { useGraphStore } from '../store/graphStore';
+import { createForceLayout, LayoutEdge, Point } from '../lib/forceLayout';
+import { PageType } from '../types';
+import Spinner from '../components/ui/Spinner';
+
+type PinnedFilter = 'all' | 'pinned' | 'unpinned';
+
+type GraphEdge = LayoutEdge & { kind: 'parent' | 'link' };
+
+const filterOptions: { label: string; value: PinnedFilter }[] = [
+  { label: 'All pages', value: 'all' },
+  { label: 'Pinned only', value: 'pinned' },
+  { label: 'Not pinned', value: 'unpinned' },
+];
+
+const typeColors: Record<PageType, string> = {
+  note: 'fill-blue-500',
+  todo: 'fill-indigo-500',
+  journal: 'fill-emerald-500',
+};
+
+const typeLabels: Record<PageType, string> = {
+  note: 'Note',
+  todo: 'To-do list',
+  journal: 'Journal',
+};
+
+// Titles clutter large graphs, so there they only show on hover
+const MAX_LABELED_NODES = 60;
+
+const PADDING = 40;
+
+const GraphPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { pages, fetchPages } = usePageStore();
+  const { links, loading, error, fetchLinks } = useGraphStore();
+  const [filter, setFilter] = useState<PinnedFilter>('all');
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [positions, setPositions] = useState<Map<string, Point>>(new Map());
+  const positionsRef = useRef(positions);
+
+  useEffect(() => {
+    fetchPages();
+    fetchLinks();
+  }, [fetchPages, fetchLinks]);
+
+  const graph = useMemo(() => {
+    const nodes = pages.filter(
+      (page) => filter === 'all' || (filter === 'pinned') === !!page.is_pinned
+    );
+    const ids = new Set(nodes.map((page) => page.id));
+
+    const edges: GraphEdge[] = [
+      ...nodes
+        .filter((page) => page.parent_id && ids.has(page.parent_id))
+        .map((page) => ({
+          source: page.parent_id!,
+          target: page.id,
+          kind: 'parent' as const,
+        })),
+      ...links
+        .filter(
+          (link) => ids.has(link.source_page_id) && ids.has(link.target_page_id)
+        )
+        .map((link) => ({
+          source: link.source_page_id,
+          target: link.target_page_id,
+          kind: 'link' as const,
+        })),
+    ];
+
+    const degrees = new Map<string, number>();
+    for (const edge of edges) {
+      degrees.set(edge.source, (degrees.get(edge.source) ?? 0) + 1);
+      degrees.set(edge.target, (degrees.get(edge.target) ?? 0) + 1);
+    }
+
+    return { nodes, edges, degrees };
+  }, [pages, links, filter]);
+
+  // Saving a title changes the pages but not the graph's shape, which is all
+  // the layout cares about
+  const shape = useMemo(
+    () =>
+      JSON.stringify([
+        graph.nodes.map((page) => page.id),
+        graph.edges.map((edge) => [edge.source, edge.target]),
+      ]),
+    [graph]
+  );
+
+  // Runs the simulation a few ticks per frame until it settles
+  useEffect(() => {
+    const [ids, edges]: [string[], [string, string][]] = JSON.parse(shape);
+    const layout = createForceLayout(
+      ids,
+      edges.map(([source, target]) => ({ source, target })),
+      positionsRef.current
+    );
+    const ticksPerFrame = layout.nodes.length > 300 ? 1 : 3;
+    let frame = 0;
+
+    const step = () => {
+      for (let i = 0; i < ticksPerFrame && !layout.isSettled(); i++) {
+        layout.tick();
+      }
+      const next = new Map(
+        layout.nodes.map((node) => [node.id, { x: node.x, y: node.y }])
+      );
+      positionsRef.current = next;
+      setPositions(next);
+      if (!layout.isSettled()) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [shape]);
+
+  const viewBox = useMemo(() => {
+    const points = [...positions.values()];
+    if (points.length === 0) return '-100 -100 200 200';
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const minX = Math.min(...xs) - PADDING;
+    const minY = Math.min(...ys) - PADDING;
+    const width = Math.max(Math.max(...xs) + PADDING - minX, 200);
+    const height = Math.max(Math.max(...ys) + PADDING - minY, 200);
+    return `${minX} ${minY} ${width} ${height}`;
+  }, [positions]);
+
+  const getRadius = (pageId: string) =>
+    4 + 2.5 * Math.sqrt(graph.degrees.get(pageId) ?? 0);
+
+  const isNeighbour = (edge: GraphEdge) =>
+    edge.source === hoveredId || edge.target === hoveredId;
+
+  const showLabels = graph.nodes.length <= MAX_LABELED_NODES;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 h-full flex flex-col">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 gap-4">
+        <h1 className="text-3xl font-bold text-slate-800 flex items-center gap-3">
+          Graph
+          {loading && <Spinner size="sm" />}
+        </h1>
+
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Show
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as PinnedFilter)}
+            className="rounded-md border border-slate-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {filterOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg mb-4">
+          <p className="font-medium">Error: {error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-3 text-xs text-slate-500">
+        {(Object.keys(typeLabels) as PageType[]).map((type) => (
+          <span key={type} className="flex items-center gap-1.5">
+            <svg width="10" height="10">
+              <circle cx="5" cy="5" r="5" className={typeColors[type]} />
+            </svg>
+            {typeLabels[type]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-5 border-t border-slate-400" />
+          Sub-page
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-5 border-t border-dashed border-blue-400" />
+          Link
+        </span>
+      </div>
+
+      {graph.nodes.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg">
+          <p className="text-slate-600">No pages to show</p>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-[24rem] bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <svg viewBox={viewBox} className="w-full h-full select-none">
+            {graph.edges.map((edge, index) => {
+              const source = positions.get(edge.source);
+              const target = positions.get(edge.target);
+              if (!source || !target) return null;
+              return (
+                <line
+                  key={`${edge.kind}-${index}`}
+                  x1={source.x}
+                  y1={source.y}
+                  x2={target.x}
+                  y2={target.y}
+                  strokeWidth={isNeighbour(edge) ? 1.5 : 0.75}
+                  strokeDasharray={edge.kind === 'link' ? '3 2' : undefined}
+                  className={
+                    edge.kind === 'link'
+                      ? 'stroke-blue-400'
+                      : 'stroke-slate-300'
+                  }
+                  opacity={hoveredId && !isNeighbour(edge) ? 0.3 : 1}
+                />
+              );
+            })}
+
+            {graph.nodes.map((page) => {
+              const position = positions.get(page.id);
+              if (!position) return null;
+              const radius = getRadius(page.id);
+              return (
+                <g
+                  key={page.id}
+                  transform={`translate(${position.x} ${position.y})`}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/page/${page.id}`)}
+                  onMouseEnter={() => setHoveredId(page.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                >
+                  <title>{page.title || 'Untitled'}</title>
+                  <circle
+                    r={radius}
+                    className={`${typeColors[page.type] ?? typeColors.note} ${
+                      page.is_pinned ? 'stroke-amber-400' : 'stroke-white'
+                    }`}
+                    strokeWidth={1.5}
+                  />
+                  {(showLabels || hoveredId === page.id) && (
+                    <text
+                      y={radius + 9}
+                      textAnchor="middle"
+                      fontSize={8}
+                      className="fill-slate-600 pointer-events-none"
+                    >
+                      {page.title || 'Untitled'}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphPage;
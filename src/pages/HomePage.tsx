@@ -1,6 +1,13 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { PenSquare, ListTodo, Pin, Clock, GripVertical } from 'lucide-react';
+import {
+  PenSquare,
+  ListTodo,
+  Pin,
+  Clock,
+  GripVertical,
+  LayoutTemplate,
+} from 'lucide-react';
 import {
   DndContext,
   closestCenter,
@@ -22,7 +29,10 @@ import { useAuthStore } from '../store/authStore';
 import { formatDate } from '../lib/utils';
 import Button from '../components/ui/Button';
 import Spinner from '../components/ui/Spinner';
-import { Page } from '../types';
+import TemplateGallery from '../components/templates/TemplateGallery';
+import CreateFromTemplateDialog from '../components/templates/CreateFromTemplateDialog';
+import PageIcon from '../components/pages/PageIcon';
+import { Page, PageTemplate } from '../types';
 
 type SortablePinnedPageProps = {
   page: Page;
@@ -54,11 +64,7 @@ const SortablePinnedPage: React.FC<SortablePinnedPageProps> = ({
       >
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-2">
-            {page.type === 'note' ? (
-              <PenSquare size={16} className="text-blue-600" />
-            ) : (
-              <ListTodo size={16} className="text-indigo-600" />
-            )}
+            <PageIcon type={page.type} />
             <h3 className="font-medium text-slate-800 line-clamp-1">
               {page.title}
             </h3>
@@ -109,6 +115,7 @@ const HomePage: React.FC = () => {
   const { user } = useAuthStore();
   const navigate = useNavigate();
   const [isDragging, setIsDragging] = useState(false);
+  const [template, setTemplate] = useState<PageTemplate | null>(null);
 
   // Configure sensors with better mobile settings
   const sensors = useSensors(
@@ -223,7 +230,8 @@ const HomePage: React.FC = () => {
     );
   }
 
-  const recentPages = pages
+  // Sorts a copy, so the store's pages keep their order
+  const recentPages = [...pages]
     .sort(
       (a, b) =>
         new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
@@ -343,11 +351,7 @@ const HomePage: React.FC = () => {
                   className="flex items-center p-4 hover:bg-slate-50 transition-colors"
                 >
                   <div className="mr-3">
-                    {page.type === 'note' ? (
-                      <PenSquare size={20} className="text-blue-600" />
-                    ) : (
-                      <ListTodo size={20} className="text-indigo-600" />
-                    )}
+                    <PageIcon type={page.type} size={20} />
                   </div>
 
                   <div className="flex-1 min-w-0">
@@ -370,6 +374,29 @@ const HomePage: React.FC = () => {
           </div>
         )}
       </section>
+
+      <section className="mt-8">
+        <div className="flex items-center gap-2 mb-4">
+          <LayoutTemplate size={18} className="text-slate-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Templates</h2>
+        </div>
+
+        <TemplateGallery
+          onSelect={setTemplate}
+          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
+        />
+      </section>
+
+      {template && (
+        <CreateFromTemplateDialog
+          template={template}
+          onClose={() => setTemplate(null)}
+          onCreated={(pageId) => {
+            setTemplate(null);
+            navigate(`/page/${pageId}`);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useJournalStore } from '../store/journalStore';
+import { toJournalDate } from '../lib/journal';
+import Spinner from '../components/ui/Spinner';
+
+// Opens the journal page for /journal/:date, or today without a date,
+// creating it the first time the day is visited
+const JournalPage: React.FC = () => {
+  const { date } = useParams<{ date: string }>();
+  const navigate = useNavigate();
+  const { openJournal, fetchJournalSettings } = useJournalStore();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const open = async () => {
+      setError(null);
+      try {
+        await fetchJournalSettings();
+        const pageId = await openJournal(date ?? toJournalDate());
+        if (!cancelled) navigate(`/page/${pageId}`, { replace: true });
+      } catch (err) {
+        console.error('Error opening journal:', err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to open the journal'
+          );
+        }
+      }
+    };
+    open();
+    return () => {
+      cancelled = true;
+    };
+  }, [date, openJournal, fetchJournalSettings, navigate]);
+
+  if (error) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg">
+          <p className="font-medium">Error: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-center items-center h-96">
+      <Spinner size="lg" />
+    </div>
+  );
+};
+
+export default JournalPage;
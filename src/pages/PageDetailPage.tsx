@@ -1,13 +1,24 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Pin, ArrowLeft, Trash2, Edit, Eye, Save } from 'lucide-react';
+import { Pin, ArrowLeft, Trash2, Edit, Eye, Save, RotateCcw, FolderInput, History, LayoutTemplate, Copy, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
 import { usePageStore } from '../store/pageStore';
+import { useVersionStore } from '../store/versionStore';
 import BlockEditor from '../components/editor/BlockEditor';
 import TodoList from '../components/todo/TodoList';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Spinner from '../components/ui/Spinner';
+import PageSyncBadge from '../components/sync/PageSyncBadge';
+import MovePageDialog from '../components/pages/MovePageDialog';
+import DuplicatePageDialog from '../components/pages/DuplicatePageDialog';
+import VersionHistory from '../components/pages/VersionHistory';
+import BacklinksPanel from '../components/pages/BacklinksPanel';
+import SaveTemplateDialog from '../components/templates/SaveTemplateDialog';
+import JournalCalendarDialog from '../components/journal/JournalCalendarDialog';
 import { formatDateTime } from '../lib/utils';
+import { getDescendantIds } from '../lib/pageTree';
+import { shiftJournalDate, toJournalDate } from '../lib/journal';
+import { deleteDraft, getDraft, saveDraft } from '../lib/storageManager';
 import toast from 'react-hot-toast';
 
 
@@ -16,20 +27,30 @@ const PageDetailPage: React.FC = () => {
   const navigate = useNavigate();
 
   const {
+    pages,
     currentPage,
     loading,
     error,
     fetchPageById,
     updatePage,
     deletePage,
+    restorePage,
+    deletePageForever,
     togglePinPage,
   } = usePageStore();
+  const { recordVersion } = useVersionStore();
 
   const [title, setTitle] = useState('');
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [isSavingTitle, setIsSavingTitle] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteSubpages, setDeleteSubpages] = useState(false);
+  const [showMoveDialog, setShowMoveDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
   const [isReadOnly, setIsReadOnly] = useState(true);
   const [isAutoSave, setIsAutoSave] = useState(false);
   const [isSavingContent, setIsSavingContent] = useState(false); // For manual save spinner
@@ -45,28 +66,28 @@ const PageDetailPage: React.FC = () => {
   useEffect(() => {
     if (currentPage) {
       setTitle(currentPage.title);
-      if (currentPage.type === 'note') {
-        const cachedContentString = localStorage.getItem(`page-${currentPage.id}-cache`);
-        if (cachedContentString) {
-          try {
-            const cachedContent = JSON.parse(cachedContentString);
-            if (cachedContent && cachedContent.blocks &&
-              JSON.stringify(cachedContent) !== JSON.stringify(currentPage.content)) {
-              console.log("Restoring content from cache and attempting to update store (potential save):", cachedContent);
-              updatePage(currentPage.id, { content: cachedContent })
-                .then(() => {
-                  // toast.success("Content restored from cache and synced."); // Optional: notify if cache restore causes a save
-                  localStorage.removeItem(`page-${currentPage.id}-cache`); // Clear cache if it was successfully applied and saved
-                })
-                .catch(() => {
-                  // toast.error("Failed to sync restored cached content.");
-                });
+      if (currentPage.type !== 'todo') {
+        getDraft(currentPage.id)
+          .then((cachedContent) => {
+            if (!cachedContent || !cachedContent.blocks) return;
+            if (JSON.stringify(cachedContent) === JSON.stringify(currentPage.content)) {
+              // Already saved, so the draft is stale
+              return deleteDraft(currentPage.id);
             }
-          } catch (e) {
-            console.error("Error loading or parsing cached content:", e);
+            console.log("Restoring content from cache and attempting to update store (potential save):", cachedContent);
+            updatePage(currentPage.id, { content: cachedContent })
+              .then(() => {
+                // toast.success("Content restored from cache and synced."); // Optional: notify if cache restore causes a save
+                return deleteDraft(currentPage.id); // Clear cache if it was successfully applied and saved
+              })
+              .catch(() => {
+                // toast.error("Failed to sync restored cached content.");
+              });
+          })
+          .catch((e) => {
+            console.error("Error loading cached content:", e);
             toast.error("Error loading cached content.");
-          }
-        }
+          });
       }
     }
     return () => {
@@ -93,7 +114,6 @@ const PageDetailPage: React.FC = () => {
     setIsSavingTitle(true);
     try {
       await updatePage(currentPage.id, { title });
-      toast.success('Title updated successfully!');
       setIsEditingTitle(false);
     } catch (err) {
       console.error('Error updating title:', err);
@@ -107,7 +127,9 @@ const PageDetailPage: React.FC = () => {
     async (data: any) => {
       if (!currentPage) return;
 
-      localStorage.setItem(`page-${currentPage.id}-cache`, JSON.stringify(data));
+      saveDraft(currentPage.id, data).catch((err) =>
+        console.error('Error caching content locally:', err)
+      );
       // console.log("Content cached locally. IsAutoSave:", isAutoSave);
 
       if (isAutoSave) {
@@ -123,7 +145,11 @@ const PageDetailPage: React.FC = () => {
             }
             // console.log("Auto-saving content...", data);
             await updatePage(currentPage.id, { content: data });
-            localStorage.removeItem(`page-${currentPage.id}-cache`);
+            await deleteDraft(currentPage.id);
+            const savedPage = usePageStore.getState().currentPage;
+            if (savedPage?.id === currentPage.id) {
+              await recordVersion(savedPage, 'autosave');
+            }
             // console.log("Content auto-saved and cache cleared.");
           } catch (err) {
             console.error('Error auto-saving content:', err);
@@ -132,22 +158,25 @@ const PageDetailPage: React.FC = () => {
         }, 5000); // Auto-save to backend after 5 seconds of inactivity (post-editor-debounce)
       }
     },
-    [currentPage, updatePage, isAutoSave, contentData] // contentData added to deps if currentPage.content is used in check
+    [currentPage, updatePage, recordVersion, isAutoSave, contentData] // contentData added to deps if currentPage.content is used in check
   );
 
   const handleManualSave = async () => {
     if (!currentPage) return;
-    const cachedContent = localStorage.getItem(`page-${currentPage.id}-cache`);
+    const cachedContent = await getDraft(currentPage.id);
     if (!cachedContent) {
       toast.error('No new changes to save manually.');
       return;
     }
     setIsSavingContent(true);
     try {
-      const content = JSON.parse(cachedContent);
-      // console.log("Manually saving content:", content);
-      await updatePage(currentPage.id, { content });
-      localStorage.removeItem(`page-${currentPage.id}-cache`);
+      // console.log("Manually saving content:", cachedContent);
+      await updatePage(currentPage.id, { content: cachedContent });
+      await deleteDraft(currentPage.id);
+      const savedPage = usePageStore.getState().currentPage;
+      if (savedPage?.id === currentPage.id) {
+        await recordVersion(savedPage, 'manual');
+      }
     } catch (err) {
       console.error('Error manually saving content:', err);
       toast.error('Failed to save changes.');
@@ -156,13 +185,23 @@ const PageDetailPage: React.FC = () => {
     }
   };
 
+  const subpageCount = useMemo(
+    () => (currentPage ? getDescendantIds(pages, currentPage.id).length : 0),
+    [pages, currentPage]
+  );
+
   const handleDeletePage = async () => {
     if (!currentPage) return;
     setIsDeleting(true);
     try {
-      await deletePage(currentPage.id);
-      localStorage.removeItem(`page-${currentPage.id}-cache`);
-      toast.success(`Page "${currentPage.title}" deleted.`);
+      await deletePage(currentPage.id, deleteSubpages);
+      const { error: deleteError } = usePageStore.getState();
+      if (deleteError) throw new Error(deleteError);
+      toast.success(
+        subpageCount > 0
+          ? `Page "${currentPage.title}" and its sub-pages moved to trash.`
+          : `Page "${currentPage.title}" moved to trash.`
+      );
       navigate('/');
     } catch (err: any) {
       console.error('Error deleting page:', err);
@@ -174,6 +213,19 @@ const PageDetailPage: React.FC = () => {
     }
   };
 
+  const handleRestorePage = async () => {
+    if (!currentPage) return;
+    await restorePage(currentPage.id);
+    toast.success(`Page "${currentPage.title}" restored.`);
+  };
+
+  const handleDeleteForever = async () => {
+    if (!currentPage) return;
+    await deletePageForever(currentPage.id);
+    toast.success(`Page "${currentPage.title}" deleted forever.`);
+    navigate('/trash');
+  };
+
   const handleTogglePinPage = async () => {
     if (!currentPage) return;
     try {
@@ -248,6 +300,39 @@ const PageDetailPage: React.FC = () => {
       {/* Header Section */}
       <div className="flex flex-col md:flex-row md:items-start gap-4 mx-6 mt-8">
         <div className="flex-1">
+          {currentPage.journal_date && (
+            <div className="flex items-center gap-1 mb-2 -ml-2 text-sm">
+              <button
+                onClick={() => navigate(`/journal/${shiftJournalDate(currentPage.journal_date!, -1)}`)}
+                className="p-1 rounded hover:bg-slate-100 text-slate-500"
+                title="Previous day"
+              >
+                <ChevronLeft size={18} />
+              </button>
+              <button
+                onClick={() => setShowCalendar(true)}
+                className="p-1 rounded hover:bg-slate-100 text-slate-500"
+                title="Pick a day"
+              >
+                <Calendar size={16} />
+              </button>
+              <button
+                onClick={() => navigate(`/journal/${shiftJournalDate(currentPage.journal_date!, 1)}`)}
+                className="p-1 rounded hover:bg-slate-100 text-slate-500"
+                title="Next day"
+              >
+                <ChevronRight size={18} />
+              </button>
+              {currentPage.journal_date !== toJournalDate() && (
+                <button
+                  onClick={() => navigate('/journal')}
+                  className="ml-1 px-2 py-0.5 rounded text-blue-600 hover:bg-blue-50"
+                >
+                  Today
+                </button>
+              )}
+            </div>
+          )}
           {isEditingTitle ? (
             <div className="flex gap-2 items-center">
               <Input
@@ -288,11 +373,14 @@ const PageDetailPage: React.FC = () => {
                 Updated: {formatDateTime(currentPage.updated_at)}
               </span>
             )}
+            <span className="ml-3">
+              <PageSyncBadge pageId={currentPage.id} />
+            </span>
           </div>
         </div>
 
         <div className="flex items-center gap-1.5 shrink-0">
-          {currentPage.type === 'note' && (
+          {currentPage.type !== 'todo' && (
             <>
               <Button
                 variant="outline"
@@ -314,6 +402,14 @@ const PageDetailPage: React.FC = () => {
                   {isSavingContent ? <Spinner size="sm" /> : <Save size={16} />}
                 </Button>
               )}
+              <Button
+                variant="outline"
+                onClick={() => setShowHistory(true)}
+                className="p-2"
+                title="Version history"
+              >
+                <History size={16} />
+              </Button>
               <Button
                 variant="outline"
                 onClick={toggleEditMode}
@@ -334,17 +430,71 @@ const PageDetailPage: React.FC = () => {
             <Pin size={16} />
           </Button>
 
-          <Button
-            variant="danger"
-            className="p-2 text-white"
-            onClick={() => setShowDeleteConfirm(true)}
-            title="Delete this page"
-          >
-            <Trash2 size={16} />
-          </Button>
+          {!currentPage.deleted_at && (
+            <Button
+              variant="outline"
+              onClick={() => setShowMoveDialog(true)}
+              className="p-2 text-slate-600 hover:text-slate-800"
+              title="Move this page"
+            >
+              <FolderInput size={16} />
+            </Button>
+          )}
+
+          {!currentPage.deleted_at && (
+            <Button
+              variant="outline"
+              onClick={() => setShowDuplicateDialog(true)}
+              className="p-2 text-slate-600 hover:text-slate-800"
+              title="Duplicate this page"
+            >
+              <Copy size={16} />
+            </Button>
+          )}
+
+          {!currentPage.deleted_at && (
+            <Button
+              variant="outline"
+              onClick={() => setShowSaveTemplate(true)}
+              className="p-2 text-slate-600 hover:text-slate-800"
+              title="Save as template"
+            >
+              <LayoutTemplate size={16} />
+            </Button>
+          )}
+
+          {!currentPage.deleted_at && (
+            <Button
+              variant="danger"
+              className="p-2 text-white"
+              onClick={() => {
+                setDeleteSubpages(false);
+                setShowDeleteConfirm(true);
+              }}
+              title="Move this page to the trash"
+            >
+              <Trash2 size={16} />
+            </Button>
+          )}
         </div>
       </div>
 
+      {currentPage.deleted_at && (
+        <div className="mx-6 mt-4 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800">
+          <span className="flex-1">This page is in the trash.</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={handleRestorePage}>
+              <RotateCcw size={14} />
+              <span>Restore</span>
+            </Button>
+            <Button variant="danger" size="sm" className="flex items-center gap-1" onClick={handleDeleteForever}>
+              <Trash2 size={14} />
+              <span>Delete forever</span>
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Content Section - Scrollable */}
       <div className="flex-1 overflow-y-auto">
         <div className="px-4 py-6 h-full">
@@ -353,25 +503,91 @@ const PageDetailPage: React.FC = () => {
               {contentData && <BlockEditor
                 key={`${currentPage.id}-${isReadOnly}`}
                 data={contentData}
+                pageId={currentPage.id}
                 onChange={handleEditorChange}
                 readOnly={isReadOnly}
                 autoSave={isAutoSave}
               />}
             </div>
+          ) : currentPage.type === 'journal' ? (
+            // A journal day has both notes and to-dos
+            <div className="space-y-6">
+              <div className="bg-white rounded-lg border border-slate-200 p-4 md:p-6 min-h-[12rem]">
+                {contentData && <BlockEditor
+                  key={`${currentPage.id}-${isReadOnly}`}
+                  data={contentData}
+                  pageId={currentPage.id}
+                  onChange={handleEditorChange}
+                  readOnly={isReadOnly}
+                  autoSave={isAutoSave}
+                />}
+              </div>
+              <TodoList pageId={currentPage.id} />
+            </div>
           ) : (
             <TodoList pageId={currentPage.id} />
           )}
         </div>
+
+        {!currentPage.deleted_at && (
+          <div className="px-4 pb-6">
+            <BacklinksPanel page={currentPage} />
+          </div>
+        )}
       </div>
 
+      {showHistory && (
+        <VersionHistory page={currentPage} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showCalendar && (
+        <JournalCalendarDialog
+          selectedDate={currentPage.journal_date}
+          onClose={() => setShowCalendar(false)}
+        />
+      )}
+
+      {showDuplicateDialog && (
+        <DuplicatePageDialog
+          page={currentPage}
+          onClose={() => setShowDuplicateDialog(false)}
+          onDuplicated={(copyId) => {
+            setShowDuplicateDialog(false);
+            navigate(`/page/${copyId}`);
+          }}
+        />
+      )}
+
+      {showSaveTemplate && (
+        <SaveTemplateDialog page={currentPage} onClose={() => setShowSaveTemplate(false)} />
+      )}
+
+      {showMoveDialog && (
+        <MovePageDialog page={currentPage} onClose={() => setShowMoveDialog(false)} />
+      )}
+
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg p-6 w-full max-w-md shadow-xl">
-            <h2 className="text-xl font-bold mb-3 text-red-700">Delete Page</h2>
-            <p className="mb-6 text-slate-600">
-              Are you sure you want to delete "{currentPage.title}"? This action cannot be undone.
+            <h2 className="text-xl font-bold mb-3 text-red-700">Move to Trash</h2>
+            <p className="text-slate-600">
+              Move "{currentPage.title}" to the trash? You can restore it from the trash until it is deleted for good.
             </p>
-            <div className="flex justify-end gap-3">
+            {subpageCount > 0 && (
+              <label className="mt-4 flex items-start gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={deleteSubpages}
+                  onChange={(e) => setDeleteSubpages(e.target.checked)}
+                />
+                <span>
+                  Also move its {subpageCount === 1 ? 'sub-page' : `${subpageCount} sub-pages`} to the trash.
+                  Otherwise, move {subpageCount === 1 ? 'it' : 'them'} elsewhere first.
+                </span>
+              </label>
+            )}
+            <div className="mt-6 flex justify-end gap-3">
               <Button
                 variant="outline"
                 onClick={() => setShowDeleteConfirm(false)}
@@ -382,11 +598,11 @@ const PageDetailPage: React.FC = () => {
               <Button
                 variant="danger"
                 onClick={handleDeletePage}
-                disabled={isDeleting}
+                disabled={isDeleting || (subpageCount > 0 && !deleteSubpages)}
                 className="flex items-center gap-1.5"
               >
                 {isDeleting && <Spinner size="sm" />}
-                <span>{isDeleting ? 'Deleting...' : 'Yes, Delete'}</span>
+                <span>{isDeleting ? 'Moving...' : 'Move to Trash'}</span>
               </Button>
             </div>
           </div>
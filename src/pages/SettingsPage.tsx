@@ -1,16 +1,29 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, LogOut } from 'lucide-react';
+import {
+  User,
+  LogOut,
+  RefreshCw,
+  Database,
+  HardDrive,
+  CalendarDays,
+} from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Avatar from '../components/ui/Avatar';
 import Spinner from '../components/ui/Spinner';
-import { supabase } from '../lib/supabase';
+import { storage } from '../lib/storage';
 import SecretPage from './SecretPage';
+import FailedSyncList from '../components/sync/FailedSyncList';
+import StorageUsage from '../components/storage/StorageUsage';
+import { useSyncStore } from '../store/syncStore';
+import { useJournalStore } from '../store/journalStore';
 
 const SettingsPage: React.FC = () => {
   const { user, signOut } = useAuthStore();
+  const { rebuilding, rebuildLocalCache } = useSyncStore();
+  const { carryTodos, fetchJournalSettings, setCarryTodos } = useJournalStore();
 
   const navigate = useNavigate();
 
@@ -30,15 +43,10 @@ const SettingsPage: React.FC = () => {
     setSuccess(false);
 
     try {
-      const { error } = await supabase
-        .from('users')
-        .update({
-          name,
-          avatar_url: avatarUrl,
-        })
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await storage.auth.updateProfile(user.id, {
+        name,
+        avatar_url: avatarUrl,
+      });
 
       setSuccess(true);
     } catch (error: any) {
@@ -49,6 +57,10 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    fetchJournalSettings();
+  }, [fetchJournalSettings]);
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/login');
@@ -134,6 +146,72 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
         <SecretPage />
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <div className="border-b border-slate-200 px-6 py-4">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <RefreshCw size={18} className="text-blue-600" />
+              Sync
+            </h2>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <FailedSyncList />
+
+            <div className="border-t border-slate-200 pt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <p className="text-sm text-slate-600">
+                If pages look out of date or fail to load, rebuild this device's
+                copy from the server. Unsynced changes are kept.
+              </p>
+              <Button
+                variant="outline"
+                className="flex items-center gap-2 shrink-0"
+                onClick={rebuildLocalCache}
+                disabled={rebuilding}
+              >
+                {rebuilding ? <Spinner size="sm" /> : <Database size={16} />}
+                <span>Rebuild local cache</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <div className="border-b border-slate-200 px-6 py-4">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <CalendarDays size={18} className="text-blue-600" />
+              Journal
+            </h2>
+          </div>
+
+          <div className="p-6">
+            <label className="flex items-start gap-3 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={carryTodos}
+                onChange={(e) => setCarryTodos(e.target.checked)}
+              />
+              <span>
+                Carry unfinished to-dos forward
+                <span className="block text-slate-500">
+                  A new day's journal starts with the to-dos left open in the
+                  previous one.
+                </span>
+              </span>
+            </label>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
+          <div className="border-b border-slate-200 px-6 py-4">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <HardDrive size={18} className="text-blue-600" />
+              Storage
+            </h2>
+          </div>
+
+          <div className="p-6">
+            <StorageUsage />
+          </div>
+        </div>
         <div className="bg-white rounded-lg border border-slate-200 overflow-hidden">
           <div className="border-b border-slate-200 px-6 py-4">
             <h2 className="text-xl font-semibold">Account</h2>
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { usePageStore } from '../store/pageStore';
+import { Page } from '../types';
+import { formatShortDateTime } from '../lib/utils';
+import Button from '../components/ui/Button';
+import Spinner from '../components/ui/Spinner';
+import PageIcon from '../components/pages/PageIcon';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const retentionOptions: { label: string; days: number | null }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'Never', days: null },
+];
+
+const TrashPage: React.FC = () => {
+  const {
+    trashedPages,
+    trashRetentionDays,
+    loading,
+    error,
+    fetchPages,
+    fetchTrashRetention,
+    setTrashRetention,
+    restorePage,
+    deletePageForever,
+  } = usePageStore();
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPages();
+    fetchTrashRetention();
+  }, [fetchPages, fetchTrashRetention]);
+
+  const sortedPages = [...trashedPages].sort(
+    (a, b) =>
+      new Date(b.deleted_at!).getTime() - new Date(a.deleted_at!).getTime()
+  );
+
+  const describePurge = (page: Page) => {
+    if (trashRetentionDays === null) return null;
+    const purgeAt =
+      new Date(page.deleted_at!).getTime() + trashRetentionDays * DAY;
+    const days = Math.max(Math.ceil((purgeAt - Date.now()) / DAY), 0);
+    return days === 1
+      ? 'Deleted forever in 1 day'
+      : `Deleted forever in ${days} days`;
+  };
+
+  const handleRestore = async (page: Page) => {
+    await restorePage(page.id);
+    if (!usePageStore.getState().error) {
+      toast.success(`"${page.title}" restored`);
+    }
+  };
+
+  const handleDeleteForever = async (page: Page) => {
+    setConfirmingId(null);
+    await deletePageForever(page.id);
+    if (!usePageStore.getState().error) {
+      toast.success(`"${page.title}" deleted forever`);
+    }
+  };
+
+  if (loading && trashedPages.length === 0) {
+    return (
+      <div className="flex justify-center items-center h-96">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8 gap-4">
+        <h1 className="text-3xl font-bold text-slate-800">Trash</h1>
+
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Delete pages after
+          <select
+            value={trashRetentionDays ?? 'never'}
+            onChange={(e) =>
+              setTrashRetention(
+                e.target.value === 'never' ? null : Number(e.target.value)
+              )
+            }
+            className="rounded-md border border-slate-300 px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {retentionOptions.map((option) => (
+              <option key={option.label} value={option.days ?? 'never'}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg mb-6">
+          <p className="font-medium">Error: {error}</p>
+        </div>
+      )}
+
+      {sortedPages.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 rounded-lg">
+          <p className="text-slate-600">The trash is empty</p>
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+          {sortedPages.map((page) => (
+            <div
+              key={page.id}
+              className="flex flex-col sm:flex-row sm:items-center gap-3 p-4"
+            >
+              <Link
+                to={`/page/${page.id}`}
+                className="flex items-center flex-1 min-w-0 hover:underline"
+              >
+                <div className="mr-3">
+                  <PageIcon type={page.type} size={20} />
+                </div>
+                <div className="min-w-0">
+                  <h3 className="font-medium text-slate-800 truncate">
+                    {page.title}
+                  </h3>
+                  <p className="text-sm text-slate-500">
+                    Deleted {formatShortDateTime(page.deleted_at!)}
+                    {describePurge(page) && ` · ${describePurge(page)}`}
+                  </p>
+                </div>
+              </Link>
+
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex items-center gap-1"
+                  onClick={() => handleRestore(page)}
+                >
+                  <RotateCcw size={14} />
+                  <span>Restore</span>
+                </Button>
+                {confirmingId === page.id ? (
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    className="flex items-center gap-1"
+                    onClick={() => handleDeleteForever(page)}
+                  >
+                    <Trash2 size={14} />
+                    <span>Confirm</span>
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-1 text-red-600 border-red-200 hover:bg-red-50"
+                    onClick={() => setConfirmingId(page.id)}
+                  >
+                    <Trash2 size={14} />
+                    <span>Delete forever</span>
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashPage;
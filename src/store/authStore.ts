@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
+import { storage } from '../lib/storage';
 import { User } from '../types';
 
 type AuthState = {
@@ -23,23 +23,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       
-      const { data: { session } } = await supabase.auth.getSession();
+      const sessionUser = await storage.auth.getSessionUser();
       
-      if (session) {
-        const { data: userData, error: userError } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
-        
-        if (userError) throw userError;
+      if (sessionUser) {
+        const profile = await storage.auth.getProfile(sessionUser.id);
         
         set({
           user: {
-            id: session.user.id,
-            email: session.user.email!,
-            name: userData?.name,
-            avatar_url: userData?.avatar_url,
+            ...sessionUser,
+            name: profile?.name,
+            avatar_url: profile?.avatar_url,
           },
           initialized: true,
         });
@@ -58,20 +51,10 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      
-      if (error) throw error;
+      const user = await storage.auth.signIn(email, password);
       
-      if (data.user) {
-        set({
-          user: {
-            id: data.user.id,
-            email: data.user.email!,
-          },
-        });
+      if (user) {
+        set({ user });
       }
     } catch (error: any) {
       console.error('Sign in error:', error);
@@ -85,19 +68,16 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
-      
-      if (error) throw error;
+      const needsConfirmation = await storage.auth.signUp(email, password);
       
       // User has been created but not signed in yet
-      if (data) {
+      if (needsConfirmation) {
         set({
           user: null,
           error: 'Please check your email to confirm your account.',
         });
+      } else {
+        await get().fetchUser();
       }
     } catch (error: any) {
       console.error('Sign up error:', error);
@@ -111,9 +91,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       set({ loading: true, error: null });
       
-      const { error } = await supabase.auth.signOut();
-      
-      if (error) throw error;
+      await storage.auth.signOut();
       
       set({ user: null });
     } catch (error: any) {
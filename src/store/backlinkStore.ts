@@ -0,0 +1,142 @@
+import { create } from 'zustand';
+import { Page, PageLink } from '../types';
+import { getDB, getPendingRowIds } from '../lib/db';
+import { findLinkSnippets, findMentionSnippets } from '../lib/pageLinks';
+import { storage } from '../lib/storage';
+import { subscribeToTabs } from '../lib/tabSync';
+
+// A page that refers to the current one, with the text around each reference
+export type Backlink = {
+  page: Page;
+  snippets: string[];
+};
+
+// Titles this short or generic would be found everywhere
+const MIN_MENTION_LENGTH = 3;
+const IGNORED_TITLES = ['untitled'];
+
+type BacklinksState = {
+  pageId: string | null;
+  linked: Backlink[];
+  unlinked: Backlink[];
+  loading: boolean;
+  error: string | null;
+  fetchBacklinks: (pageId: string, title: string) => Promise<void>;
+};
+
+// Links to the page, cached first. Online, the cache is brought in line with
+// the server, leaving links with queued writes for the sync queue to settle.
+async function loadIncomingLinks(pageId: string): Promise<PageLink[]> {
+  const db = await getDB();
+  if (navigator.onLine) {
+    const remote = (await storage.links.listForPage(pageId)).filter(
+      (link) => link.target_page_id === pageId
+    );
+    const pending = await getPendingRowIds('page_links');
+    const remoteIds = new Set(remote.map((link) => link.id));
+
+    const tx = db.transaction('page_links', 'readwrite');
+    const cached = await tx.store.index('by-target').getAll(pageId);
+    await Promise.all([
+      ...cached
+        .filter((link) => !remoteIds.has(link.id) && !pending.has(link.id))
+        .map((link) => tx.store.delete(link.id)),
+      ...remote
+        .filter((link) => !pending.has(link.id))
+        .map((link) => tx.store.put(link)),
+      tx.done,
+    ]);
+  }
+  return db.getAllFromIndex('page_links', 'by-target', pageId);
+}
+
+// Pages are cached with their content once opened on this device. Online,
+// the content of the others is fetched.
+async function loadWithContent(page: Page) {
+  if (page.content !== undefined || !navigator.onLine) return page;
+  return (await storage.pages.get(page.id)) ?? page;
+}
+
+const byTitle = (a: Backlink, b: Backlink) =>
+  a.page.title.localeCompare(b.page.title);
+
+export const useBacklinkStore = create<BacklinksState>((set, get) => ({
+  pageId: null,
+  linked: [],
+  unlinked: [],
+  loading: false,
+  error: null,
+
+  fetchBacklinks: async (pageId, title) => {
+    try {
+      if (get().pageId !== pageId) {
+        set({ pageId, linked: [], unlinked: [] });
+      }
+      set({ loading: true, error: null });
+
+      const db = await getDB();
+      const cachedPages = (await db.getAll('pages')).filter(
+        (p) => !p.deleted_at && p.id !== pageId
+      );
+      const cachedById = new Map(cachedPages.map((p) => [p.id, p]));
+
+      const links = await loadIncomingLinks(pageId);
+      const sourceIds = new Set(links.map((link) => link.source_page_id));
+
+      const linked: Backlink[] = [];
+      for (const sourceId of sourceIds) {
+        const source = cachedById.get(sourceId);
+        if (!source) continue;
+        const withContent = await loadWithContent(source);
+        linked.push({
+          page: source,
+          snippets: findLinkSnippets(withContent.content, pageId),
+        });
+      }
+
+      // Only pages with cached content can be searched
+      const mention = title.trim();
+      const linkedIds = new Set(linked.map((backlink) => backlink.page.id));
+      const unlinked =
+        mention.length < MIN_MENTION_LENGTH ||
+        IGNORED_TITLES.includes(mention.toLowerCase())
+          ? []
+          : cachedPages
+              .filter((p) => !linkedIds.has(p.id) && p.content !== undefined)
+              .map((p) => ({
+                page: p,
+                snippets: findMentionSnippets(p.content, mention),
+              }))
+              .filter((backlink) => backlink.snippets.length > 0);
+
+      if (get().pageId === pageId) {
+        set({
+          linked: linked.sort(byTitle),
+          unlinked: unlinked.sort(byTitle),
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching backlinks:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to fetch backlinks',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+}));
+
+// Another tab linked or unlinked pages
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed' || message.store !== 'page_links') return;
+
+  const { pageId, fetchBacklinks } = useBacklinkStore.getState();
+  if (!pageId) return;
+  try {
+    const page = await (await getDB()).get('pages', pageId);
+    if (page) await fetchBacklinks(page.id, page.title);
+  } catch (error) {
+    console.error('Error reloading backlinks:', error);
+  }
+});
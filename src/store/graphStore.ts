@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { PageLink } from '../types';
+import { getDB, getPendingRowIds } from '../lib/db';
+import { storage } from '../lib/storage';
+import { subscribeToTabs } from '../lib/tabSync';
+
+// Every link between pages, for the graph. Pages come from the page store.
+type GraphState = {
+  links: PageLink[];
+  loading: boolean;
+  error: string | null;
+  fetchLinks: () => Promise<void>;
+};
+
+async function loadCachedLinks() {
+  const db = await getDB();
+  return db.getAll('page_links');
+}
+
+export const useGraphStore = create<GraphState>((set) => ({
+  links: [],
+  loading: false,
+  error: null,
+
+  fetchLinks: async () => {
+    try {
+      set({ loading: true, error: null });
+
+      // Show the cache first, then replace it with the server's links. Links
+      // with writes still queued are left for the sync queue to settle.
+      set({ links: await loadCachedLinks() });
+
+      if (navigator.onLine) {
+        const remote = await storage.links.list();
+        const pending = await getPendingRowIds('page_links');
+        const remoteIds = new Set(remote.map((link) => link.id));
+
+        const db = await getDB();
+        const tx = db.transaction('page_links', 'readwrite');
+        const cachedIds = await tx.store.getAllKeys();
+        await Promise.all([
+          ...cachedIds
+            .filter((id) => !remoteIds.has(id) && !pending.has(id))
+            .map((id) => tx.store.delete(id)),
+          ...remote
+            .filter((link) => !pending.has(link.id))
+            .map((link) => tx.store.put(link)),
+          tx.done,
+        ]);
+
+        set({ links: await loadCachedLinks() });
+      }
+    } catch (error) {
+      console.error('Error fetching page links:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to fetch page links',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+}));
+
+// Another tab linked or unlinked pages
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed' || message.store !== 'page_links') return;
+
+  try {
+    useGraphStore.setState({ links: await loadCachedLinks() });
+  } catch (error) {
+    console.error('Error reloading page links:', error);
+  }
+});
@@ -0,0 +1,206 @@
+import { create } from 'zustand';
+import { Page, TodoItem } from '../types';
+import {
+  getDB,
+  addToSyncQueue,
+  processSyncQueue,
+  getUserPreference,
+  setUserPreference,
+} from '../lib/db';
+import { pullChanges } from '../lib/deltaSync';
+import { storage } from '../lib/storage';
+import { broadcastChange, subscribeToTabs } from '../lib/tabSync';
+import {
+  JOURNAL_CARRY_TODOS_KEY,
+  formatJournalTitle,
+  getCarriedTodoId,
+  getJournalPageId,
+  parseJournalDate,
+} from '../lib/journal';
+import { usePageStore } from './pageStore';
+
+type JournalState = {
+  // Copy unfinished todos from the latest earlier journal into a new day
+  carryTodos: boolean;
+  fetchJournalSettings: () => Promise<void>;
+  setCarryTodos: (carryTodos: boolean) => Promise<void>;
+  // Resolves to the id of the day's journal page, created if needed
+  openJournal: (date: string) => Promise<string>;
+};
+
+// Unfinished todos of the latest journal before `date`, re-keyed for the new
+// page. The originals stay where they are.
+async function getCarriedTodos(
+  date: string,
+  pageId: string
+): Promise<TodoItem[]> {
+  // Read from the cache, as the page list may not be loaded yet
+  const db = await getDB();
+  const previous = (await db.getAll('pages'))
+    .filter(
+      (page) =>
+        !page.deleted_at && page.journal_date && page.journal_date < date
+    )
+    .sort((a, b) => b.journal_date!.localeCompare(a.journal_date!))[0];
+  if (!previous) return [];
+
+  if (navigator.onLine) {
+    await pullChanges('todos');
+  }
+
+  const todos = await db.getAllFromIndex('todos', 'by-page', previous.id);
+  const now = Date.now();
+
+  return Promise.all(
+    todos
+      .filter((todo) => !todo.completed)
+      .sort(
+        (a, b) =>
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      )
+      .map(async (todo, i) => {
+        // A millisecond apart, so the to-do list keeps its order
+        const createdAt = new Date(now + i).toISOString();
+        return {
+          ...todo,
+          id: await getCarriedTodoId(todo.id, date),
+          page_id: pageId,
+          created_at: createdAt,
+          updated_at: createdAt,
+        };
+      })
+  );
+}
+
+export const useJournalStore = create<JournalState>((set, get) => ({
+  carryTodos: true,
+
+  fetchJournalSettings: async () => {
+    try {
+      const user = await storage.auth.getUser();
+      if (!user) return;
+
+      let carryTodos = await getUserPreference(JOURNAL_CARRY_TODOS_KEY);
+      if (navigator.onLine) {
+        const remote = await storage.preferences
+          .get(user.id, JOURNAL_CARRY_TODOS_KEY)
+          .catch(() => undefined);
+        if (remote !== undefined) {
+          carryTodos = remote;
+          const db = await getDB();
+          await db.put('user_preferences', {
+            id: JOURNAL_CARRY_TODOS_KEY,
+            value: carryTodos,
+          });
+        }
+      }
+
+      set({ carryTodos: carryTodos ?? true });
+    } catch (error) {
+      console.error('Error fetching journal settings:', error);
+    }
+  },
+
+  setCarryTodos: async (carryTodos) => {
+    try {
+      set({ carryTodos });
+      await setUserPreference(JOURNAL_CARRY_TODOS_KEY, carryTodos);
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+    } catch (error) {
+      console.error('Error saving journal settings:', error);
+    }
+  },
+
+  openJournal: async (date) => {
+    if (!parseJournalDate(date)) {
+      throw new Error(`"${date}" isn't a valid date`);
+    }
+
+    const user = await storage.auth.getUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const pageId = await getJournalPageId(user.id, date);
+    const { pages, trashedPages, restorePage } = usePageStore.getState();
+
+    if (pages.some((page) => page.id === pageId)) return pageId;
+    if (trashedPages.some((page) => page.id === pageId)) {
+      await restorePage(pageId);
+      return pageId;
+    }
+
+    // Another device may have written the day without this one knowing yet
+    const db = await getDB();
+    if (await db.get('pages', pageId)) return pageId;
+    if (
+      navigator.onLine &&
+      (await storage.pages.getSummaries([pageId])).length > 0
+    ) {
+      return pageId;
+    }
+
+    const now = new Date().toISOString();
+    const page: Page = {
+      id: pageId,
+      title: formatJournalTitle(date),
+      type: 'journal',
+      content: {},
+      parent_id: null,
+      position: null,
+      is_pinned: false,
+      deleted_at: null,
+      journal_date: date,
+      user_id: user.id,
+      created_at: now,
+      updated_at: now,
+    };
+    const todos = get().carryTodos ? await getCarriedTodos(date, pageId) : [];
+
+    const tx = db.transaction(['pages', 'todos'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('pages').put(page),
+      ...todos.map((todo) => tx.objectStore('todos').put(todo)),
+      tx.done,
+    ]);
+    broadcastChange('pages', [page.id]);
+    broadcastChange(
+      'todos',
+      todos.map((todo) => todo.id)
+    );
+
+    usePageStore.setState({ pages: [...usePageStore.getState().pages, page] });
+
+    // Another device may create the same day offline. The replay sends this
+    // one to conflict resolution rather than dropping it, see db.ts.
+    await addToSyncQueue('create', 'pages', page);
+    for (const todo of todos) {
+      await addToSyncQueue('create', 'todos', todo);
+    }
+    if (navigator.onLine) {
+      await processSyncQueue();
+    }
+
+    return pageId;
+  },
+}));
+
+// The setting was changed in another tab
+subscribeToTabs(async (message) => {
+  if (
+    message.type !== 'changed' ||
+    message.store !== 'user_preferences' ||
+    !message.ids.includes(JOURNAL_CARRY_TODOS_KEY)
+  ) {
+    return;
+  }
+
+  try {
+    const carryTodos = await getUserPreference(JOURNAL_CARRY_TODOS_KEY);
+    useJournalStore.setState({ carryTodos: carryTodos ?? true });
+  } catch (error) {
+    console.error('Error reloading journal settings:', error);
+  }
+});
@@ -1,15 +1,7 @@
 import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
+import { storage, Secret } from '../lib/storage';
 import { encryptData, decryptData, hashPin } from '../lib/crypto';
 
-interface Secret {
-  id: string;
-  name: string;
-  encrypted_data: string;
-  created_at: string;
-  updated_at: string;
-}
-
 interface KMSState {
   secrets: Secret[];
   loading: boolean;
@@ -44,7 +36,7 @@ export const useKMSStore = create<KMSState>((set, get) => ({
       }
 
       // Get current user
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) {
         throw new Error('User not authenticated');
       }
@@ -55,13 +47,7 @@ export const useKMSStore = create<KMSState>((set, get) => ({
           const decrypted = await decryptData(secret.encrypted_data, oldPin);
           const newEncrypted = await encryptData(decrypted, newPin);
 
-          const { error } = await supabase
-            .from('encrypted_secrets')
-            .update({ encrypted_data: newEncrypted })
-            .eq('id', secret.id)
-            .eq('user_id', user.id);
-
-          if (error) throw error;
+          await storage.secrets.update(user.id, secret.id, newEncrypted);
         } catch (secretError) {
           console.error(`Failed to update secret ${secret.id}:`, secretError);
           throw new Error(
@@ -70,17 +56,9 @@ export const useKMSStore = create<KMSState>((set, get) => ({
         }
       }
 
-      // Update PIN hash with user-specific where clause
+      // Update PIN hash
       const newHashedPin = await hashPin(newPin);
-      const { error: pinUpdateError } = await supabase
-        .from('user_pins')
-        .update({
-          pin_hash: newHashedPin,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('user_id', user.id);
-
-      if (pinUpdateError) throw pinUpdateError;
+      await storage.pins.setHash(user.id, newHashedPin);
 
       // Refresh secrets list
       await store.fetchSecrets();
@@ -99,17 +77,11 @@ export const useKMSStore = create<KMSState>((set, get) => ({
   fetchSecrets: async () => {
     set({ loading: true, error: null });
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { data, error } = await supabase
-        .from('encrypted_secrets')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      set({ secrets: data || [], loading: false });
+      const secrets = await storage.secrets.list(user.id);
+      set({ secrets, loading: false });
     } catch (err) {
       set({
         error: err instanceof Error ? err.message : 'Failed to fetch secrets',
@@ -120,18 +92,12 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   addSecret: async (name, value, pin) => {
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
       const encryptedValue = await encryptData(value, pin);
 
-      const { error } = await supabase.from('encrypted_secrets').insert({
-        user_id: user.id,
-        name,
-        encrypted_data: encryptedValue,
-      });
-
-      if (error) throw error;
+      await storage.secrets.insert(user.id, name, encryptedValue);
       await get().fetchSecrets();
     } catch (err) {
       console.error('Failed to add secret:', err);
@@ -141,14 +107,10 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   getSecret: async (id, pin) => {
     try {
-      const { data, error } = await supabase
-        .from('encrypted_secrets')
-        .select('encrypted_data')
-        .eq('id', id)
-        .single();
-
-      if (error || !data) throw new Error('Secret not found');
-      return await decryptData(data.encrypted_data, pin);
+      const encryptedData = await storage.secrets.getEncryptedData(id);
+
+      if (!encryptedData) throw new Error('Secret not found');
+      return await decryptData(encryptedData, pin);
     } catch (err) {
       console.error('Failed to decrypt secret:', err);
       throw err;
@@ -157,12 +119,7 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   deleteSecret: async (id) => {
     try {
-      const { error } = await supabase
-        .from('encrypted_secrets')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await storage.secrets.delete(id);
       await get().fetchSecrets();
     } catch (err) {
       console.error('Failed to delete secret:', err);
@@ -172,16 +129,12 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   checkHasPin: async () => {
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) return set({ hasPin: false });
 
-      const { data } = await supabase
-        .from('user_pins')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
+      const pinHash = await storage.pins.getHash(user.id);
 
-      set({ hasPin: !!data });
+      set({ hasPin: !!pinHash });
     } catch (err) {
       console.error('Failed to check PIN status:', err);
     }
@@ -189,17 +142,13 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   verifyPin: async (pin) => {
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) return false;
 
-      const { data } = await supabase
-        .from('user_pins')
-        .select('pin_hash')
-        .eq('user_id', user.id)
-        .single();
+      const pinHash = await storage.pins.getHash(user.id);
 
-      if (!data) return false;
-      return (await hashPin(pin)) === data.pin_hash;
+      if (!pinHash) return false;
+      return (await hashPin(pin)) === pinHash;
     } catch (err) {
       console.error('Failed to verify PIN:', err);
       return false;
@@ -208,17 +157,12 @@ export const useKMSStore = create<KMSState>((set, get) => ({
 
   createPin: async (pin) => {
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
       const pinHash = await hashPin(pin);
 
-      const { error } = await supabase.from('user_pins').upsert({
-        user_id: user.id,
-        pin_hash: pinHash,
-      });
-
-      if (error) throw error;
+      await storage.pins.setHash(user.id, pinHash);
       set({ hasPin: true });
     } catch (err) {
       console.error('Failed to create PIN:', err);
@@ -1,15 +1,154 @@
 import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
-import { Page, PageType } from '../types';
-import { getDB, addToSyncQueue } from '../lib/db';
+import { Page, PageLink, PageType, TodoItem } from '../types';
+import {
+  getDB,
+  addToSyncQueue,
+  processSyncQueue,
+  getUserPreference,
+  setUserPreference,
+  subscribeToSync,
+  getSyncConflicts,
+  resolvePageConflict,
+  hasPendingWrites,
+  SyncQueueItem,
+} from '../lib/db';
+import { pullChanges } from '../lib/deltaSync';
+import { storage } from '../lib/storage';
+import { recordPageOpened } from '../lib/storageManager';
+import {
+  canMovePage,
+  getAppendPosition,
+  getChildPages,
+  getDescendantIds,
+  getPositionAfter,
+} from '../lib/pageTree';
+import {
+  generateKeyBetween,
+  generateKeysBetween,
+} from '../lib/fractionalIndex';
+import { mergeBlocks } from '../lib/blocks';
+import { getPageWithContent, remapPageReferences } from '../lib/pageCopy';
+import { getOutgoingLinks, syncPageLinks } from '../lib/pageLinks';
+import { broadcastChange, subscribeToTabs } from '../lib/tabSync';
 import toast from 'react-hot-toast';
 
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+// Where a moved page goes among its new siblings
+export type PagePlacement = { siblingId: string; side: 'before' | 'after' };
+
+// Cached pages, most recently updated first
+async function loadCachedPages() {
+  const db = await getDB();
+  const pages = await db.getAll('pages');
+  return pages.sort(
+    (a, b) =>
+      new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+  );
+}
+
+// Trashed pages are kept apart, so lists, the sidebar and search never see them
+function splitTrash(pages: Page[]) {
+  return {
+    pages: pages.filter((page) => !page.deleted_at),
+    trashedPages: pages.filter((page) => !!page.deleted_at),
+  };
+}
+
+type PageChange = { page: Page; baseUpdatedAt: string };
+
+// Writes changed pages locally and queues each against the version it was
+// based on
+async function savePageChanges(changes: PageChange[]) {
+  const db = await getDB();
+  const tx = db.transaction('pages', 'readwrite');
+  await Promise.all([
+    ...changes.map(({ page }) => tx.store.put(page)),
+    tx.done,
+  ]);
+  broadcastChange(
+    'pages',
+    changes.map(({ page }) => page.id)
+  );
+
+  for (const { page, baseUpdatedAt } of changes) {
+    await addToSyncQueue('update', 'pages', page, baseUpdatedAt);
+  }
+  if (navigator.onLine) {
+    await processSyncQueue();
+  }
+}
+
+// Drops pages from this device along with their todos, links, versions and
+// drafts. The server cascades a page delete the same way, so only the pages
+// themselves are queued.
+async function removePagesLocally(pageIds: string[]) {
+  const db = await getDB();
+  const tx = db.transaction(
+    ['pages', 'todos', 'page_links', 'page_versions', 'drafts'],
+    'readwrite'
+  );
+  const todoIds: string[] = [];
+  const linkIds: string[] = [];
+  const versionIds: string[] = [];
+  for (const pageId of pageIds) {
+    versionIds.push(
+      ...(await tx
+        .objectStore('page_versions')
+        .index('by-page')
+        .getAllKeys(pageId))
+    );
+    todoIds.push(
+      ...(await tx.objectStore('todos').index('by-page').getAllKeys(pageId))
+    );
+    linkIds.push(
+      ...(await tx
+        .objectStore('page_links')
+        .index('by-source')
+        .getAllKeys(pageId)),
+      ...(await tx
+        .objectStore('page_links')
+        .index('by-target')
+        .getAllKeys(pageId))
+    );
+  }
+
+  // A link between two removed pages shows up under both
+  const uniqueLinkIds = [...new Set(linkIds)];
+  await Promise.all([
+    ...pageIds.map((id) => tx.objectStore('pages').delete(id)),
+    ...pageIds.map((id) => tx.objectStore('drafts').delete(id)),
+    ...todoIds.map((id) => tx.objectStore('todos').delete(id)),
+    ...versionIds.map((id) => tx.objectStore('page_versions').delete(id)),
+    ...uniqueLinkIds.map((id) => tx.objectStore('page_links').delete(id)),
+    tx.done,
+  ]);
+
+  broadcastChange('pages', pageIds);
+  broadcastChange('todos', todoIds);
+  broadcastChange('page_links', uniqueLinkIds);
+  broadcastChange('page_versions', versionIds);
+}
+
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
 type PagesState = {
   pages: Page[];
+  trashedPages: Page[];
+  // Days a page stays in the trash before it is purged, null to keep it
+  trashRetentionDays: number | null;
   currentPage: Page | null;
   loading: boolean;
   error: string | null;
   pinnedOrder: string[];
+  conflicts: SyncQueueItem[];
+  fetchConflicts: () => Promise<void>;
+  resolveConflict: (
+    item: SyncQueueItem,
+    resolution: ConflictResolution
+  ) => Promise<void>;
   fetchPinnedOrder: () => Promise<void>;
   reorderPinnedPages: (newOrder: string[]) => Promise<void>;
   fetchPages: () => Promise<void>;
@@ -20,20 +159,89 @@ type PagesState = {
     parentId?: string | null
   ) => Promise<string | null>;
   updatePage: (pageId: string, updates: Partial<Page>) => Promise<void>;
-  deletePage: (pageId: string) => Promise<void>;
+  deletePage: (pageId: string, withSubpages?: boolean) => Promise<void>;
+  restorePage: (pageId: string) => Promise<void>;
+  deletePageForever: (pageId: string) => Promise<void>;
+  movePage: (
+    pageId: string,
+    parentId: string | null,
+    placement?: PagePlacement
+  ) => Promise<void>;
+  // Resolves to the id of the copy
+  duplicatePage: (pageId: string, withSubpages?: boolean) => Promise<string>;
+  fetchTrashRetention: () => Promise<void>;
+  setTrashRetention: (days: number | null) => Promise<void>;
+  purgeExpiredTrash: () => Promise<void>;
   togglePinPage: (pageId: string) => Promise<void>;
 };
 
 export const usePageStore = create<PagesState>((set, get) => ({
   pages: [],
+  trashedPages: [],
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   currentPage: null,
   loading: false,
   error: null,
   pinnedOrder: [],
+  conflicts: [],
+
+  fetchConflicts: async () => {
+    try {
+      const conflicts = await getSyncConflicts();
+      set({ conflicts });
+    } catch (error) {
+      console.error('Error fetching sync conflicts:', error);
+    }
+  },
+
+  resolveConflict: async (item, resolution) => {
+    try {
+      const server = item.conflict?.server ?? null;
+      const local =
+        get().pages.find((p) => p.id === item.data.id) ?? (item.data as Page);
+
+      let resolved: Page | null = null;
+      if (resolution === 'mine') {
+        resolved = { ...local, updated_at: new Date().toISOString() };
+      } else if (resolution === 'merge') {
+        resolved = {
+          ...local,
+          content: mergeBlocks(local.content, server?.content),
+          updated_at: new Date().toISOString(),
+        };
+      }
+
+      await resolvePageConflict(item, resolved);
+
+      // Whatever won becomes the local copy
+      const winner = resolved ?? server;
+      const others = [...get().pages, ...get().trashedPages].filter(
+        (p) => p.id !== local.id
+      );
+      const currentPage =
+        get().currentPage?.id === local.id ? winner : get().currentPage;
+      set({
+        ...splitTrash(winner ? [...others, winner] : others),
+        currentPage,
+        conflicts: get().conflicts.filter((c) => c.id !== item.id),
+      });
+
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to resolve conflict',
+      });
+    }
+  },
+
   // Update the fetchPinnedOrder function
   fetchPinnedOrder: async () => {
     try {
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) return;
 
       // Try IndexedDB first
@@ -43,22 +251,20 @@ export const usePageStore = create<PagesState>((set, get) => ({
       // Initialize with empty array if no cached order
       let order = cachedOrder?.value || [];
 
-      // If online, fetch from Supabase
+      // If online, fetch from the backend
       if (navigator.onLine) {
-        const { data, error } = await supabase
-          .from('user_preferences')
-          .select('preference_value')
-          .eq('user_id', user.id)
-          .eq('preference_key', 'pinned_order')
-          .maybeSingle();
-
-        if (!error && data?.preference_value) {
-          order = data.preference_value;
+        const remoteOrder = await storage.preferences
+          .get(user.id, 'pinned_order')
+          .catch(() => undefined);
+
+        if (remoteOrder) {
+          order = remoteOrder;
           // Update IndexedDB with fresh data
           await db.put('user_preferences', {
             id: 'pinned_order',
             value: order,
           });
+          broadcastChange('user_preferences', ['pinned_order']);
         }
       }
 
@@ -79,8 +285,9 @@ export const usePageStore = create<PagesState>((set, get) => ({
         id: 'pinned_order',
         value: newOrder,
       });
+      broadcastChange('user_preferences', ['pinned_order']);
 
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
       if (!user) return;
 
       await addToSyncQueue('upsert', 'user_preferences', {
@@ -91,17 +298,7 @@ export const usePageStore = create<PagesState>((set, get) => ({
       });
 
       if (navigator.onLine) {
-        await supabase.from('user_preferences').upsert(
-          {
-            user_id: user.id,
-            preference_key: 'pinned_order',
-            preference_value: newOrder,
-            updated_at: new Date().toISOString(),
-          },
-          {
-            onConflict: 'user_id,preference_key',
-          }
-        );
+        await processSyncQueue();
       }
     } catch (error: any) {
       console.error('Error reordering pages:', error);
@@ -112,27 +309,21 @@ export const usePageStore = create<PagesState>((set, get) => ({
     try {
       set({ loading: true, error: null });
 
-      // Try to get from IndexedDB first
-      const db = await getDB();
-      const cachedPages = await db.getAll('pages');
+      // Show the cache first, then pull what changed since the last sync
+      const cachedPages = await loadCachedPages();
       if (cachedPages.length > 0) {
-        set({ pages: cachedPages });
+        set(splitTrash(cachedPages));
       }
 
-      const { data, error } = await supabase
-        .from('pages')
-        .select('*')
-        .order('updated_at', { ascending: false });
+      await pullChanges('pages');
+      set(splitTrash(await loadCachedPages()));
 
-      if (error) throw error;
-
-      // Update cache
-      if (data) {
-        const tx = db.transaction('pages', 'readwrite');
-        await Promise.all([...data.map((page) => tx.store.put(page)), tx.done]);
-      }
+      // Todos are small, so keep every page's list ready for offline use
+      await pullChanges('todos');
 
-      set({ pages: data as Page[] });
+      // The retention window comes first, it may be longer than the default
+      await get().fetchTrashRetention();
+      await get().purgeExpiredTrash();
     } catch (error: any) {
       console.error('Error fetching pages:', error);
       set({ error: error.message || 'Failed to fetch pages' });
@@ -145,27 +336,43 @@ export const usePageStore = create<PagesState>((set, get) => ({
     try {
       set({ loading: true, error: null });
 
-      // Try IndexedDB first
+      // Recently opened pages are the last to lose their cached content
+      recordPageOpened(pageId).catch((error) =>
+        console.error('Error recording page access:', error)
+      );
+
+      // Try IndexedDB first. Listings leave content out, so a cached page
+      // without it cannot be shown yet.
       const db = await getDB();
       const cachedPage = await db.get('pages', pageId);
-      if (cachedPage) {
+      const hasContent = cachedPage?.content !== undefined;
+      if (cachedPage && hasContent) {
         set({ currentPage: cachedPage });
       }
 
-      const { data, error } = await supabase
-        .from('pages')
-        .select('*')
-        .eq('id', pageId)
-        .single();
+      // Local edits that have not reached the server yet win
+      if (hasContent && (await hasPendingWrites('pages', pageId))) return;
 
-      if (error) throw error;
+      // A cached copy is only replaced by a newer one, so an unchanged page
+      // costs no content transfer
+      const data = await storage.pages.get(
+        pageId,
+        cachedPage && hasContent ? cachedPage.updated_at : undefined
+      );
 
-      // Update cache
-      if (data) {
-        await db.put('pages', data);
+      if (!data) {
+        if (!hasContent) throw new Error('Page not found');
+        return;
       }
 
-      set({ currentPage: data as Page });
+      // Update cache
+      await db.put('pages', data);
+      broadcastChange('pages', [data.id]);
+
+      set({
+        currentPage: data,
+        pages: get().pages.map((p) => (p.id === data.id ? data : p)),
+      });
     } catch (error: any) {
       console.error('Error fetching page:', error);
       set({ error: error.message || 'Failed to fetch page' });
@@ -178,7 +385,7 @@ export const usePageStore = create<PagesState>((set, get) => ({
     try {
       set({ loading: true, error: null });
 
-      const user = (await supabase.auth.getUser()).data.user;
+      const user = await storage.auth.getUser();
 
       if (!user) {
         throw new Error('User not authenticated');
@@ -190,7 +397,9 @@ export const usePageStore = create<PagesState>((set, get) => ({
         type,
         content: {},
         parent_id: parentId,
+        position: getAppendPosition(get().pages, parentId),
         is_pinned: false,
+        deleted_at: null,
         user_id: user.id,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -203,19 +412,14 @@ export const usePageStore = create<PagesState>((set, get) => ({
       // Store in IndexedDB
       const db = await getDB();
       await db.add('pages', newPage);
+      broadcastChange('pages', [newPage.id]);
 
       // Add to sync queue
       await addToSyncQueue('create', 'pages', newPage);
 
-      // Try to sync with Supabase
+      // Try to sync with the backend
       if (navigator.onLine) {
-        const { data, error } = await supabase
-          .from('pages')
-          .insert(newPage)
-          .select()
-          .single();
-
-        if (error) throw error;
+        await processSyncQueue();
       }
 
       return newPage.id;
@@ -236,8 +440,12 @@ export const usePageStore = create<PagesState>((set, get) => ({
       const currentPages = get().pages;
       const currentPage = get().currentPage;
 
-      // Find the page to update
-      const pageToUpdate = currentPages.find((p) => p.id === pageId);
+      // Find the page to update. Listings may have no content cached, so the
+      // open page is the one to build on.
+      const pageToUpdate =
+        currentPage?.id === pageId
+          ? currentPage
+          : currentPages.find((p) => p.id === pageId);
       if (!pageToUpdate) {
         throw new Error('Page not found');
       }
@@ -263,25 +471,37 @@ export const usePageStore = create<PagesState>((set, get) => ({
       const db = await getDB();
       try {
         await db.put('pages', updatedPage);
+        broadcastChange('pages', [pageId]);
       } catch (error) {
         console.error('IndexedDB update error:', error);
         throw error;
       }
 
-      // Add to sync queue
-      await addToSyncQueue('update', 'pages', { ...updatedPage });
-
-      // Try to sync with Supabase if online
-      if (navigator.onLine) {
-        const { error } = await supabase
-          .from('pages')
-          .update(updatedPage)
-          .eq('id', pageId);
+      // Add to sync queue, remembering which server version was edited
+      await addToSyncQueue(
+        'update',
+        'pages',
+        { ...updatedPage },
+        pageToUpdate.updated_at
+      );
 
-        if (error) throw error;
+      // Links follow the page references in the content. A failure here
+      // shouldn't fail the save itself.
+      if (updates.content !== undefined) {
+        await syncPageLinks(updatedPage).catch((error) =>
+          console.error('Error syncing page links:', error)
+        );
       }
 
-      toast.success('Changes saved successfully!');
+      // Confirm once the server has the change, see subscribeToSync below
+      if (navigator.onLine) {
+        awaitingAck.add(pageId);
+        await processSyncQueue();
+      } else {
+        toast('Saved on this device. It will sync when you are back online.', {
+          id: `saved-${pageId}`,
+        });
+      }
     } catch (error: any) {
       console.error('Error updating page:', error);
       set({ error: error.message || 'Failed to update page' });
@@ -290,50 +510,446 @@ export const usePageStore = create<PagesState>((set, get) => ({
       set({ loading: false });
     }
   },
-  deletePage: async (pageId) => {
+  // Moves the page to the trash. Its todos stay with it until it is
+  // deleted for good. A page with sub-pages is only trashed together with
+  // them, and they share its deleted_at so they are restored together too.
+  deletePage: async (pageId, withSubpages = false) => {
     try {
       set({ loading: true, error: null });
 
-      // Check for child pages
-      const childPages = get().pages.filter((p) => p.parent_id === pageId);
-      if (childPages.length > 0) {
+      const { currentPage, pages, trashedPages } = get();
+      const page =
+        currentPage?.id === pageId
+          ? currentPage
+          : pages.find((p) => p.id === pageId);
+      if (!page) {
+        throw new Error('Page not found');
+      }
+
+      const descendantIds = getDescendantIds(pages, pageId);
+      if (descendantIds.length > 0 && !withSubpages) {
         throw new Error(
-          'Cannot delete a page with child pages. Please delete or move the child pages first.'
+          'This page has sub-pages. Move them elsewhere first, or delete them along with it.'
         );
       }
 
+      const now = new Date().toISOString();
+      const changes = [
+        page,
+        ...pages.filter((p) => descendantIds.includes(p.id)),
+      ].map((p) => ({
+        page: { ...p, deleted_at: now, updated_at: now },
+        baseUpdatedAt: p.updated_at,
+      }));
+      const trashedIds = new Set(changes.map(({ page }) => page.id));
+
       // Update local state
-      const pages = get().pages.filter((page) => page.id !== pageId);
+      set({
+        pages: pages.filter((p) => !trashedIds.has(p.id)),
+        trashedPages: [...changes.map(({ page }) => page), ...trashedPages],
+        currentPage:
+          currentPage && trashedIds.has(currentPage.id) ? null : currentPage,
+      });
+
+      await savePageChanges(changes);
+    } catch (error) {
+      console.error('Error deleting page:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete page',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  // Sub-pages trashed along with the page come back with it
+  restorePage: async (pageId) => {
+    try {
+      set({ loading: true, error: null });
+
+      const { currentPage, pages, trashedPages } = get();
+      const page =
+        currentPage?.id === pageId
+          ? currentPage
+          : trashedPages.find((p) => p.id === pageId);
+      if (!page) {
+        throw new Error('Page not found');
+      }
+
+      const descendantIds = getDescendantIds(trashedPages, pageId);
+      const subpages = trashedPages.filter(
+        (p) => descendantIds.includes(p.id) && p.deleted_at === page.deleted_at
+      );
+
+      // A page whose parent is gone or still in the trash comes back at the
+      // top level
+      const hasParent = pages.some((p) => p.id === page.parent_id);
+      const now = new Date().toISOString();
+      const changes = [
+        {
+          page: {
+            ...page,
+            deleted_at: null,
+            parent_id: hasParent ? page.parent_id : null,
+            updated_at: now,
+          },
+          baseUpdatedAt: page.updated_at,
+        },
+        ...subpages.map((p) => ({
+          page: { ...p, deleted_at: null, updated_at: now },
+          baseUpdatedAt: p.updated_at,
+        })),
+      ];
+      const restoredIds = new Set(changes.map(({ page }) => page.id));
+      const restoredPage = changes[0].page;
+
+      set({
+        pages: [
+          ...changes.map(({ page }) => page),
+          ...pages.filter((p) => !restoredIds.has(p.id)),
+        ],
+        trashedPages: trashedPages.filter((p) => !restoredIds.has(p.id)),
+        currentPage: currentPage?.id === pageId ? restoredPage : currentPage,
+      });
+
+      await savePageChanges(changes);
+    } catch (error) {
+      console.error('Error restoring page:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to restore page',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  // Deletes the page and the sub-pages in the trash with it. The server
+  // removes their todos and links along with them.
+  deletePageForever: async (pageId) => {
+    try {
+      set({ loading: true, error: null });
+
+      // Deepest first, so no sub-page is ever left without its parent
+      const pageIds = [
+        pageId,
+        ...getDescendantIds(get().trashedPages, pageId),
+      ].reverse();
+
+      // Update local state
+      const trashedPages = get().trashedPages.filter(
+        (p) => !pageIds.includes(p.id)
+      );
       const currentPage =
-        get().currentPage?.id === pageId ? null : get().currentPage;
-      set({ pages, currentPage });
+        get().currentPage && pageIds.includes(get().currentPage!.id)
+          ? null
+          : get().currentPage;
+      set({ trashedPages, currentPage });
 
-      // Remove from IndexedDB
-      const db = await getDB();
-      await db.delete('pages', pageId);
+      await removePagesLocally(pageIds);
 
       // Add to sync queue
-      await addToSyncQueue('delete', 'pages', { id: pageId });
+      for (const id of pageIds) {
+        await addToSyncQueue('delete', 'pages', { id });
+      }
 
-      // Try to sync with Supabase
+      // Try to sync with the backend
       if (navigator.onLine) {
-        const { error } = await supabase
-          .from('pages')
-          .delete()
-          .eq('id', pageId);
-
-        if (error) throw error;
+        await processSyncQueue();
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting page:', error);
-      set({ error: error.message || 'Failed to delete page' });
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete page',
+      });
     } finally {
       set({ loading: false });
     }
   },
 
+  // Failures are thrown rather than stored, so an open page isn't replaced
+  // by an error screen when a move is refused
+  movePage: async (pageId, parentId, placement) => {
+    try {
+      const { currentPage, pages } = get();
+      const page =
+        currentPage?.id === pageId
+          ? currentPage
+          : pages.find((p) => p.id === pageId);
+      if (!page) {
+        throw new Error('Page not found');
+      }
+      if (page.parent_id === parentId && !placement) return;
+
+      if (parentId !== null && !pages.some((p) => p.id === parentId)) {
+        throw new Error('The page to move it into no longer exists');
+      }
+      if (!canMovePage(pages, pageId, parentId)) {
+        throw new Error("A page can't be moved into one of its own sub-pages");
+      }
+
+      // Without a placement the page goes last
+      const siblings = getChildPages(pages, parentId).filter(
+        (p) => p.id !== pageId
+      );
+      let index = siblings.length;
+      if (placement) {
+        const siblingIndex = siblings.findIndex(
+          (p) => p.id === placement.siblingId
+        );
+        if (siblingIndex === -1) {
+          throw new Error('The page to move it next to no longer exists');
+        }
+        index = placement.side === 'before' ? siblingIndex : siblingIndex + 1;
+      }
+
+      const currentIndex = getChildPages(pages, parentId).findIndex(
+        (p) => p.id === pageId
+      );
+      if (page.parent_id === parentId && currentIndex === index) return;
+
+      const now = new Date().toISOString();
+      const changes: PageChange[] = [];
+
+      // Siblings that were never ordered sort last, so they get positions
+      // after the ordered ones before the page can be placed among them
+      const lastPosition =
+        siblings.filter((p) => p.position).pop()?.position ?? null;
+      const unordered = siblings.filter((p) => !p.position);
+      const keys = generateKeysBetween(lastPosition, null, unordered.length);
+      unordered.forEach((sibling, i) => {
+        const ordered = { ...sibling, position: keys[i], updated_at: now };
+        siblings[siblings.indexOf(sibling)] = ordered;
+        changes.push({ page: ordered, baseUpdatedAt: sibling.updated_at });
+      });
+
+      const movedPage = {
+        ...page,
+        parent_id: parentId,
+        position: generateKeyBetween(
+          siblings[index - 1]?.position ?? null,
+          siblings[index]?.position ?? null
+        ),
+        updated_at: now,
+      };
+      changes.push({ page: movedPage, baseUpdatedAt: page.updated_at });
+
+      const changed = new Map(changes.map(({ page }) => [page.id, page]));
+      set({
+        pages: pages.map((p) => changed.get(p.id) ?? p),
+        currentPage: currentPage?.id === pageId ? movedPage : currentPage,
+      });
+
+      await savePageChanges(changes);
+    } catch (error) {
+      console.error('Error moving page:', error);
+      throw error;
+    }
+  },
+
+  // Copies the page, and with `withSubpages` everything below it, under new
+  // ids. Todos and outgoing links come along, and links and `/page/<id>`
+  // references between copied pages point at the copies.
+  duplicatePage: async (pageId, withSubpages = false) => {
+    try {
+      const { currentPage, pages } = get();
+      const page =
+        currentPage?.id === pageId
+          ? currentPage
+          : pages.find((p) => p.id === pageId);
+      if (!page) {
+        throw new Error('Page not found');
+      }
+
+      const byId = new Map(pages.map((p) => [p.id, p]));
+      const originals = [
+        page,
+        ...(withSubpages ? getDescendantIds(pages, pageId) : [])
+          .map((id) => byId.get(id))
+          .filter((p): p is Page => !!p),
+      ];
+      const idMap = new Map(
+        originals.map((original) => [original.id, crypto.randomUUID()])
+      );
+
+      if (navigator.onLine) {
+        await pullChanges('todos');
+      }
+
+      const now = new Date().toISOString();
+      const copies: Page[] = [];
+      for (const original of originals) {
+        const full = await getPageWithContent(original);
+        const isTop = original.id === pageId;
+        copies.push({
+          ...full,
+          id: idMap.get(original.id)!,
+          title: isTop ? `${full.title} (copy)` : full.title,
+          // There is one journal page per day, so copies of one are notes
+          type: full.type === 'journal' ? 'note' : full.type,
+          journal_date: null,
+          content: remapPageReferences(full.content ?? {}, idMap),
+          parent_id: isTop
+            ? (page.parent_id ?? null)
+            : (idMap.get(original.parent_id!) ?? null),
+          // Sub-pages keep their order, as all their siblings are copied too
+          position: isTop ? getPositionAfter(pages, page) : original.position,
+          is_pinned: false,
+          deleted_at: null,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+
+      const db = await getDB();
+      const todos: TodoItem[] = [];
+      for (const original of originals) {
+        const originalTodos = await db.getAllFromIndex(
+          'todos',
+          'by-page',
+          original.id
+        );
+        originalTodos
+          .sort(
+            (a, b) =>
+              new Date(a.created_at).getTime() -
+              new Date(b.created_at).getTime()
+          )
+          .forEach((todo, i) => {
+            // A millisecond apart, so the to-do list keeps its order
+            const createdAt = new Date(Date.parse(now) + i).toISOString();
+            todos.push({
+              ...todo,
+              id: crypto.randomUUID(),
+              content: remapPageReferences(todo.content, idMap),
+              page_id: idMap.get(original.id)!,
+              created_at: createdAt,
+              updated_at: createdAt,
+            });
+          });
+      }
+
+      const links: PageLink[] = (await getOutgoingLinks([...idMap.keys()])).map(
+        (link) => ({
+          id: crypto.randomUUID(),
+          source_page_id: idMap.get(link.source_page_id)!,
+          target_page_id: idMap.get(link.target_page_id) ?? link.target_page_id,
+          created_at: now,
+        })
+      );
+
+      const tx = db.transaction(['pages', 'todos', 'page_links'], 'readwrite');
+      await Promise.all([
+        ...copies.map((copy) => tx.objectStore('pages').put(copy)),
+        ...todos.map((todo) => tx.objectStore('todos').put(todo)),
+        ...links.map((link) => tx.objectStore('page_links').put(link)),
+        tx.done,
+      ]);
+      broadcastChange(
+        'pages',
+        copies.map((copy) => copy.id)
+      );
+      broadcastChange(
+        'todos',
+        todos.map((todo) => todo.id)
+      );
+      broadcastChange(
+        'page_links',
+        links.map((link) => link.id)
+      );
+
+      set({ pages: [...get().pages, ...copies] });
+
+      // Parents go before their sub-pages, and pages before what refers to them
+      for (const copy of copies) {
+        await addToSyncQueue('create', 'pages', copy);
+      }
+      for (const todo of todos) {
+        await addToSyncQueue('create', 'todos', todo);
+      }
+      for (const link of links) {
+        await addToSyncQueue('create', 'page_links', link);
+      }
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+
+      return copies[0].id;
+    } catch (error) {
+      console.error('Error duplicating page:', error);
+      throw error;
+    }
+  },
+
+  fetchTrashRetention: async () => {
+    try {
+      const user = await storage.auth.getUser();
+      if (!user) return;
+
+      let days = await getUserPreference(TRASH_RETENTION_KEY);
+      if (navigator.onLine) {
+        const remoteDays = await storage.preferences
+          .get(user.id, TRASH_RETENTION_KEY)
+          .catch(() => undefined);
+        if (remoteDays !== undefined) {
+          days = remoteDays;
+          const db = await getDB();
+          await db.put('user_preferences', {
+            id: TRASH_RETENTION_KEY,
+            value: days,
+          });
+        }
+      }
+
+      set({
+        trashRetentionDays:
+          days === undefined ? DEFAULT_TRASH_RETENTION_DAYS : days,
+      });
+    } catch (error) {
+      console.error('Error fetching trash retention:', error);
+    }
+  },
+
+  setTrashRetention: async (days) => {
+    try {
+      set({ trashRetentionDays: days });
+      await setUserPreference(TRASH_RETENTION_KEY, days);
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+      await get().purgeExpiredTrash();
+    } catch (error) {
+      console.error('Error saving trash retention:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to save trash retention',
+      });
+    }
+  },
+
+  // Deletes pages that have been in the trash longer than the retention window
+  purgeExpiredTrash: async () => {
+    const { trashRetentionDays, trashedPages, deletePageForever } = get();
+    if (trashRetentionDays === null) return;
+
+    const cutoff = Date.now() - trashRetentionDays * DAY;
+    for (const page of trashedPages) {
+      // Sub-pages go with their parent, so may already be gone
+      const stillTrashed = get().trashedPages.some((p) => p.id === page.id);
+      if (stillTrashed && new Date(page.deleted_at!).getTime() < cutoff) {
+        await deletePageForever(page.id);
+      }
+    }
+  },
+
   togglePinPage: async (pageId) => {
-    const page = get().pages.find((p) => p.id === pageId);
+    const { currentPage: openPage } = get();
+    const page =
+      openPage?.id === pageId
+        ? openPage
+        : get().pages.find((p) => p.id === pageId);
     if (!page) {
       set({ error: 'Page not found' });
       return;
@@ -361,18 +977,14 @@ export const usePageStore = create<PagesState>((set, get) => ({
       // Update IndexedDB
       const db = await getDB();
       await db.put('pages', updatedPage);
+      broadcastChange('pages', [pageId]);
 
       // Add to sync queue
-      await addToSyncQueue('update', 'pages', updatedPage);
+      await addToSyncQueue('update', 'pages', updatedPage, page.updated_at);
 
-      // Try to sync with Supabase
+      // Try to sync with the backend
       if (navigator.onLine) {
-        const { error } = await supabase
-          .from('pages')
-          .update(updatedPage)
-          .eq('id', pageId);
-
-        if (error) throw error;
+        await processSyncQueue();
       }
     } catch (error: any) {
       console.error('Error toggling pin state:', error);
@@ -397,3 +1009,96 @@ export const usePageStore = create<PagesState>((set, get) => ({
   //   }
   // },
 }));
+
+// Pages edited in this tab whose save hasn't been confirmed by the server.
+// Keyed by page, as queued writes to a page may be merged or cancelled out.
+const awaitingAck = new Set<string>();
+
+// Keep the store in step with what the sync queue reports back
+subscribeToSync((event) => {
+  const { pages, trashedPages, currentPage, fetchConflicts } =
+    usePageStore.getState();
+
+  if (
+    event.type === 'synced' &&
+    event.table === 'pages' &&
+    event.settled &&
+    awaitingAck.delete(event.row.id)
+  ) {
+    toast.success('Changes saved', { id: `saved-${event.row.id}` });
+  }
+
+  if (event.type === 'dropped' && event.table === 'pages') {
+    event.ids.forEach((id) => awaitingAck.delete(id));
+  }
+
+  if (event.type === 'dead-lettered' && event.item.table === 'pages') {
+    awaitingAck.delete(event.item.data.id);
+  }
+
+  if (event.type === 'conflict') {
+    awaitingAck.delete(event.item.data.id);
+    toast.error(`"${event.item.data.title}" was changed on another device.`);
+    fetchConflicts();
+    return;
+  }
+
+  if (
+    event.type !== 'synced' ||
+    event.table !== 'pages' ||
+    !event.previousUpdatedAt
+  ) {
+    return;
+  }
+
+  // Adopt the server's updated_at unless the page was edited again since
+  const adopt = (page: Page) =>
+    page.id === event.row.id && page.updated_at === event.previousUpdatedAt
+      ? { ...page, updated_at: event.row.updated_at }
+      : page;
+
+  usePageStore.setState({
+    pages: pages.map(adopt),
+    trashedPages: trashedPages.map(adopt),
+    currentPage: currentPage ? adopt(currentPage) : currentPage,
+  });
+});
+
+// Another tab wrote to IndexedDB, so reload what it touched
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed') return;
+
+  try {
+    const db = await getDB();
+
+    if (message.store === 'pages') {
+      const pages = await loadCachedPages();
+      const { currentPage, fetchPageById } = usePageStore.getState();
+      const refreshed = currentPage
+        ? (pages.find((p) => p.id === currentPage.id) ?? null)
+        : currentPage;
+
+      // A newer version pulled without its content is loaded in full
+      if (refreshed && refreshed.content === undefined) {
+        usePageStore.setState(splitTrash(pages));
+        fetchPageById(refreshed.id);
+        return;
+      }
+
+      usePageStore.setState({ ...splitTrash(pages), currentPage: refreshed });
+    } else if (message.store === 'user_preferences') {
+      if (message.ids.includes('pinned_order')) {
+        const pinnedOrder = await db.get('user_preferences', 'pinned_order');
+        usePageStore.setState({ pinnedOrder: pinnedOrder?.value || [] });
+      }
+      if (message.ids.includes(TRASH_RETENTION_KEY)) {
+        const days = await db.get('user_preferences', TRASH_RETENTION_KEY);
+        usePageStore.setState({
+          trashRetentionDays: days ? days.value : DEFAULT_TRASH_RETENTION_DAYS,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error applying changes from another tab:', error);
+  }
+});
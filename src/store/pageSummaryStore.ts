@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { getDB } from '../lib/db';
+import { storage, PageSummary } from '../lib/storage';
+
+// What a link to a page resolves to: the page, 'not-found' when it no longer
+// exists, or 'unavailable' when it isn't cached and can't be fetched right now
+export type LinkTarget = PageSummary | 'not-found' | 'unavailable';
+
+type PageSummaryState = {
+  targets: Record<string, LinkTarget>;
+  // Resolves the page soon, together with any others requested meanwhile
+  requestPage: (pageId: string) => void;
+};
+
+const queued = new Set<string>();
+const inFlight = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const toSummary = ({ id, title, type, deleted_at }: PageSummary) => ({
+  id,
+  title,
+  type,
+  deleted_at,
+});
+
+// Cached pages first, then one query for the rest
+async function resolvePages(ids: string[]) {
+  const db = await getDB();
+  const targets: Record<string, LinkTarget> = {};
+  const missing: string[] = [];
+  for (const id of ids) {
+    const page = await db.get('pages', id);
+    if (page) targets[id] = toSummary(page);
+    else missing.push(id);
+  }
+
+  if (missing.length > 0) {
+    try {
+      if (!navigator.onLine) throw new Error('Offline');
+      const found = new Map(
+        (await storage.pages.getSummaries(missing)).map((page) => [
+          page.id,
+          page,
+        ])
+      );
+      for (const id of missing) {
+        const page = found.get(id);
+        targets[id] = page ? toSummary(page) : 'not-found';
+      }
+    } catch (error) {
+      if (navigator.onLine)
+        console.error('Error fetching linked pages:', error);
+      missing.forEach((id) => (targets[id] = 'unavailable'));
+    }
+  }
+  return targets;
+}
+
+async function flush() {
+  flushTimer = null;
+  const ids = [...queued];
+  queued.clear();
+  ids.forEach((id) => inFlight.add(id));
+
+  let targets: Record<string, LinkTarget>;
+  try {
+    targets = await resolvePages(ids);
+  } catch (error) {
+    console.error('Error resolving linked pages:', error);
+    targets = Object.fromEntries(ids.map((id) => [id, 'unavailable']));
+  }
+  usePageSummaryStore.setState((state) => ({
+    targets: { ...state.targets, ...targets },
+  }));
+  ids.forEach((id) => inFlight.delete(id));
+}
+
+export const usePageSummaryStore = create<PageSummaryState>((_set, get) => ({
+  targets: {},
+
+  requestPage: (pageId) => {
+    const target = get().targets[pageId];
+    if (target && target !== 'unavailable') return;
+    if (queued.has(pageId) || inFlight.has(pageId)) return;
+
+    queued.add(pageId);
+    // Links render together, so wait for the rest of them
+    flushTimer ??= setTimeout(flush, 0);
+  },
+}));
+
+// Links that couldn't be fetched get another try once back online
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    const { targets, requestPage } = usePageSummaryStore.getState();
+    Object.entries(targets)
+      .filter(([, target]) => target === 'unavailable')
+      .forEach(([pageId]) => requestPage(pageId));
+  });
+}
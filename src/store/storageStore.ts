@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import {
+  StorageEstimate,
+  countCachedPages,
+  estimateStorage,
+  evictPageContent,
+  requestPersistentStorage,
+} from '../lib/storageManager';
+import { usePageStore } from './pageStore';
+
+type StorageState = {
+  estimate: StorageEstimate | null;
+  cachedPages: number;
+  loading: boolean;
+  clearing: boolean;
+  error: string | null;
+  fetchUsage: () => Promise<void>;
+  persistStorage: () => Promise<void>;
+  clearLocalCache: () => Promise<void>;
+};
+
+export const useStorageStore = create<StorageState>((set, get) => ({
+  estimate: null,
+  cachedPages: 0,
+  loading: false,
+  clearing: false,
+  error: null,
+
+  fetchUsage: async () => {
+    try {
+      set({ loading: true, error: null });
+      const [estimate, cachedPages] = await Promise.all([
+        estimateStorage(),
+        countCachedPages(),
+      ]);
+      set({ estimate, cachedPages });
+    } catch (error) {
+      console.error('Error estimating storage:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to estimate storage',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  persistStorage: async () => {
+    const persisted = await requestPersistentStorage();
+    if (!persisted) {
+      toast.error('The browser did not allow keeping data on this device.');
+    }
+    await get().fetchUsage();
+  },
+
+  // Drops all cached page content. The page list, drafts and unsynced
+  // changes stay, and content is fetched again as pages are opened.
+  clearLocalCache: async () => {
+    try {
+      set({ clearing: true, error: null });
+      const currentPage = usePageStore.getState().currentPage;
+      const evicted = await evictPageContent(
+        currentPage ? [currentPage.id] : [],
+        0
+      );
+      await get().fetchUsage();
+      toast.success(
+        evicted === 1
+          ? 'Cleared 1 cached page'
+          : `Cleared ${evicted} cached pages`
+      );
+    } catch (error) {
+      console.error('Error clearing local cache:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to clear local cache',
+      });
+    } finally {
+      set({ clearing: false });
+    }
+  },
+}));
@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import {
+  DeadLetterItem,
+  SyncQueueItem,
+  getDeadLetters,
+  retryDeadLetter,
+  discardDeadLetter,
+  processSyncQueue,
+  subscribeToSync,
+  resetLocalDB,
+  getSyncQueueSummary,
+} from '../lib/db';
+import { usePageStore } from './pageStore';
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  failingCount: number;
+  deadLetteredCount: number;
+  pendingPageIds: string[];
+  failingPageIds: string[];
+  refreshSyncStatus: () => Promise<void>;
+  deadLetters: DeadLetterItem[];
+  loading: boolean;
+  error: string | null;
+  fetchDeadLetters: () => Promise<void>;
+  retryDeadLetter: (id: number, data?: SyncQueueItem['data']) => Promise<void>;
+  discardDeadLetter: (id: number) => Promise<void>;
+  rebuilding: boolean;
+  rebuildLocalCache: () => Promise<void>;
+};
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pendingCount: 0,
+  failingCount: 0,
+  deadLetteredCount: 0,
+  pendingPageIds: [],
+  failingPageIds: [],
+  deadLetters: [],
+  loading: false,
+  error: null,
+  rebuilding: false,
+
+  refreshSyncStatus: async () => {
+    try {
+      const summary = await getSyncQueueSummary();
+      set({
+        pendingCount: summary.pending,
+        failingCount: summary.failing,
+        deadLetteredCount: summary.deadLettered,
+        pendingPageIds: summary.pendingPageIds,
+        failingPageIds: summary.failingPageIds,
+      });
+    } catch (error) {
+      console.error('Error reading sync queue:', error);
+    }
+  },
+
+  fetchDeadLetters: async () => {
+    try {
+      set({ loading: true, error: null });
+      const deadLetters = await getDeadLetters();
+      set({ deadLetters });
+    } catch (error) {
+      console.error('Error fetching failed sync operations:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to load failed sync operations',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  retryDeadLetter: async (id, data) => {
+    try {
+      await retryDeadLetter(id, data);
+      set({ deadLetters: get().deadLetters.filter((item) => item.id !== id) });
+
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+    } catch (error) {
+      console.error('Error retrying sync operation:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to retry operation',
+      });
+    }
+  },
+
+  discardDeadLetter: async (id) => {
+    try {
+      await discardDeadLetter(id);
+      set({ deadLetters: get().deadLetters.filter((item) => item.id !== id) });
+    } catch (error) {
+      console.error('Error discarding sync operation:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to discard operation',
+      });
+    }
+  },
+
+  // Recreates the local database and pulls everything from the server again.
+  // Writes that haven't synced yet are kept.
+  rebuildLocalCache: async () => {
+    try {
+      set({ rebuilding: true, error: null });
+      await resetLocalDB();
+
+      const { fetchPages, fetchPinnedOrder } = usePageStore.getState();
+      await Promise.all([fetchPages(), fetchPinnedOrder()]);
+      await get().fetchDeadLetters();
+      toast.success('Local cache rebuilt');
+    } catch (error) {
+      console.error('Error rebuilding local cache:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to rebuild local cache',
+      });
+    } finally {
+      set({ rebuilding: false });
+    }
+  },
+}));
+
+// Overall state of this device's changes, as shown in the sync indicator
+export function selectSyncStatus(state: SyncState): SyncStatus {
+  if (!state.online) return 'offline';
+  if (state.failingCount > 0 || state.deadLetteredCount > 0) return 'error';
+  if (state.pendingCount > 0) return state.syncing ? 'syncing' : 'pending';
+  return 'synced';
+}
+
+export function selectPageSyncStatus(pageId: string) {
+  return (state: SyncState): SyncStatus => {
+    if (state.failingPageIds.includes(pageId)) return 'error';
+    if (!state.pendingPageIds.includes(pageId)) return 'synced';
+    if (!state.online) return 'offline';
+    return state.syncing ? 'syncing' : 'pending';
+  };
+}
+
+subscribeToSync((event) => {
+  const { refreshSyncStatus, fetchDeadLetters } = useSyncStore.getState();
+
+  switch (event.type) {
+    case 'sync-started':
+      useSyncStore.setState({ syncing: true });
+      break;
+    case 'sync-finished':
+      useSyncStore.setState({ syncing: false });
+      refreshSyncStatus();
+      break;
+    case 'dead-lettered':
+      toast.error('A change could not be synced. See Settings to retry it.');
+      refreshSyncStatus();
+      fetchDeadLetters();
+      break;
+    default:
+      refreshSyncStatus();
+  }
+});
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () =>
+    useSyncStore.setState({ online: true })
+  );
+  window.addEventListener('offline', () =>
+    useSyncStore.setState({ online: false })
+  );
+
+  useSyncStore.getState().refreshSyncStatus();
+}
@@ -0,0 +1,321 @@
+import { create } from 'zustand';
+import { Page, PageTemplate, TemplatePage, TodoItem } from '../types';
+import {
+  getDB,
+  addToSyncQueue,
+  processSyncQueue,
+  getPendingRowIds,
+} from '../lib/db';
+import { pullChanges } from '../lib/deltaSync';
+import { storage } from '../lib/storage';
+import { broadcastChange, subscribeToTabs } from '../lib/tabSync';
+import { getAppendPosition, getChildPages } from '../lib/pageTree';
+import { generateKeysBetween } from '../lib/fractionalIndex';
+import { fillVariables, getBuiltInValues } from '../lib/templates';
+import { getPageWithContent } from '../lib/pageCopy';
+import { usePageStore } from './pageStore';
+
+type TemplatesState = {
+  templates: PageTemplate[]; // Newest first
+  loading: boolean;
+  error: string | null;
+  fetchTemplates: () => Promise<void>;
+  saveAsTemplate: (pageId: string, name: string) => Promise<void>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+  // Resolves to the id of the new top page
+  createFromTemplate: (
+    templateId: string,
+    title: string,
+    values: Record<string, string>,
+    parentId?: string | null
+  ) => Promise<string | null>;
+};
+
+async function loadCachedTemplates() {
+  const db = await getDB();
+  const templates = await db.getAll('page_templates');
+  return templates.sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+async function queueTemplateWrite(
+  type: 'create' | 'delete',
+  template: PageTemplate
+) {
+  await addToSyncQueue(
+    type,
+    'page_templates',
+    type === 'delete' ? { id: template.id, name: template.name } : template
+  );
+  if (navigator.onLine) {
+    await processSyncQueue();
+  }
+}
+
+// The page, its todos and its sub-pages in sidebar order
+async function toTemplatePage(
+  page: Page,
+  pages: Page[]
+): Promise<TemplatePage> {
+  const db = await getDB();
+  const fullPage = await getPageWithContent(page);
+  const todos = await db.getAllFromIndex('todos', 'by-page', page.id);
+
+  const children: TemplatePage[] = [];
+  for (const child of getChildPages(pages, page.id)) {
+    children.push(await toTemplatePage(child, pages));
+  }
+
+  return {
+    title: fullPage.title,
+    // Journal pages are tied to their day, so they are kept as notes
+    type: fullPage.type === 'journal' ? 'note' : fullPage.type,
+    content: fullPage.type === 'todo' ? {} : (fullPage.content ?? {}),
+    todos: todos
+      .sort(
+        (a, b) =>
+          new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      )
+      .map(({ text, content }) => ({ text, content })),
+    children,
+  };
+}
+
+export const useTemplateStore = create<TemplatesState>((set, get) => ({
+  templates: [],
+  loading: false,
+  error: null,
+
+  fetchTemplates: async () => {
+    try {
+      set({ loading: true, error: null });
+
+      // Show the cache first, then replace it with the server's list. Templates
+      // with writes still queued are left for the sync queue to settle.
+      set({ templates: await loadCachedTemplates() });
+
+      if (navigator.onLine) {
+        const remote = await storage.templates.list();
+        const pending = await getPendingRowIds('page_templates');
+        const remoteIds = new Set(remote.map((template) => template.id));
+
+        const db = await getDB();
+        const tx = db.transaction('page_templates', 'readwrite');
+        const cachedIds = await tx.store.getAllKeys();
+        await Promise.all([
+          ...cachedIds
+            .filter((id) => !remoteIds.has(id) && !pending.has(id))
+            .map((id) => tx.store.delete(id)),
+          ...remote
+            .filter((template) => !pending.has(template.id))
+            .map((template) => tx.store.put(template)),
+          tx.done,
+        ]);
+
+        set({ templates: await loadCachedTemplates() });
+      }
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to fetch templates',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  saveAsTemplate: async (pageId, name) => {
+    try {
+      set({ error: null });
+
+      const { pages, currentPage } = usePageStore.getState();
+      const page =
+        currentPage?.id === pageId
+          ? currentPage
+          : pages.find((p) => p.id === pageId);
+      if (!page) throw new Error('Page not found');
+
+      if (navigator.onLine) {
+        await pullChanges('todos');
+      }
+
+      const template: PageTemplate = {
+        id: crypto.randomUUID(),
+        user_id: page.user_id,
+        name,
+        page: await toTemplatePage(page, pages),
+        created_at: new Date().toISOString(),
+      };
+
+      const db = await getDB();
+      await db.put('page_templates', template);
+      broadcastChange('page_templates', [template.id]);
+      set({ templates: [template, ...get().templates] });
+
+      await queueTemplateWrite('create', template);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to save template',
+      });
+      throw error;
+    }
+  },
+
+  deleteTemplate: async (templateId) => {
+    const template = get().templates.find((t) => t.id === templateId);
+    if (!template) return;
+
+    try {
+      set({
+        templates: get().templates.filter((t) => t.id !== templateId),
+        error: null,
+      });
+
+      const db = await getDB();
+      await db.delete('page_templates', templateId);
+      broadcastChange('page_templates', [templateId]);
+
+      await queueTemplateWrite('delete', template);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to delete template',
+      });
+    }
+  },
+
+  // Creates the template's pages and todos with fresh ids. Pages are queued
+  // before their sub-pages and todos, so the server always has the parent.
+  createFromTemplate: async (templateId, title, values, parentId = null) => {
+    try {
+      set({ error: null });
+
+      const template = get().templates.find((t) => t.id === templateId);
+      if (!template) throw new Error('Template not found');
+
+      const user = await storage.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const now = new Date().toISOString();
+      const allValues = { ...values, ...getBuiltInValues(title) };
+      const pages: Page[] = [];
+      const todos: TodoItem[] = [];
+
+      const addPage = (
+        templatePage: TemplatePage,
+        pageParentId: string | null,
+        position: string | null,
+        pageTitle: string
+      ) => {
+        const page: Page = {
+          id: crypto.randomUUID(),
+          title: pageTitle,
+          type: templatePage.type,
+          content: fillVariables(templatePage.content ?? {}, allValues),
+          parent_id: pageParentId,
+          position,
+          is_pinned: false,
+          deleted_at: null,
+          user_id: user.id,
+          created_at: now,
+          updated_at: now,
+        };
+        pages.push(page);
+
+        // A millisecond apart, so the to-do list keeps the template's order
+        templatePage.todos.forEach((todo, i) => {
+          const createdAt = new Date(Date.parse(now) + i).toISOString();
+          todos.push({
+            id: crypto.randomUUID(),
+            text: fillVariables(todo.text, allValues),
+            content: fillVariables(todo.content ?? null, allValues),
+            completed: false,
+            page_id: page.id,
+            created_at: createdAt,
+            updated_at: createdAt,
+          });
+        });
+
+        const keys = generateKeysBetween(
+          null,
+          null,
+          templatePage.children.length
+        );
+        templatePage.children.forEach((child, i) =>
+          addPage(
+            child,
+            page.id,
+            keys[i],
+            fillVariables(child.title, allValues)
+          )
+        );
+      };
+
+      const livePages = usePageStore.getState().pages;
+      addPage(
+        template.page,
+        parentId,
+        getAppendPosition(livePages, parentId),
+        title
+      );
+
+      const db = await getDB();
+      const tx = db.transaction(['pages', 'todos'], 'readwrite');
+      await Promise.all([
+        ...pages.map((page) => tx.objectStore('pages').put(page)),
+        ...todos.map((todo) => tx.objectStore('todos').put(todo)),
+        tx.done,
+      ]);
+      broadcastChange(
+        'pages',
+        pages.map((page) => page.id)
+      );
+      broadcastChange(
+        'todos',
+        todos.map((todo) => todo.id)
+      );
+
+      usePageStore.setState({
+        pages: [...usePageStore.getState().pages, ...pages],
+      });
+
+      for (const page of pages) {
+        await addToSyncQueue('create', 'pages', page);
+      }
+      for (const todo of todos) {
+        await addToSyncQueue('create', 'todos', todo);
+      }
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+
+      return pages[0].id;
+    } catch (error) {
+      console.error('Error creating page from template:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to create page from template',
+      });
+      return null;
+    }
+  },
+}));
+
+// Another tab saved or deleted a template
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed' || message.store !== 'page_templates') return;
+
+  try {
+    useTemplateStore.setState({ templates: await loadCachedTemplates() });
+  } catch (error) {
+    console.error('Error reloading templates:', error);
+  }
+});
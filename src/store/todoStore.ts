@@ -0,0 +1,283 @@
+import { create } from 'zustand';
+import toast from 'react-hot-toast';
+import { TodoItem } from '../types';
+import {
+  getDB,
+  addToSyncQueue,
+  processSyncQueue,
+  subscribeToSync,
+  SyncOperation,
+} from '../lib/db';
+import { pullChanges } from '../lib/deltaSync';
+import { broadcastChange, subscribeToTabs } from '../lib/tabSync';
+
+type TodoChanges = Partial<Pick<TodoItem, 'text' | 'content' | 'completed'>>;
+
+type TodosState = {
+  pageId: string | null;
+  todos: TodoItem[];
+  // Snapshots of `todos` after each local change, newest last
+  history: TodoItem[][];
+  loading: boolean;
+  error: string | null;
+  fetchTodos: (pageId: string) => Promise<void>;
+  createTodo: (text: string) => Promise<void>;
+  updateTodo: (todoId: string, changes: TodoChanges) => Promise<void>;
+  toggleTodo: (todoId: string) => Promise<void>;
+  deleteTodo: (todoId: string) => Promise<void>;
+  undo: () => Promise<void>;
+};
+
+type TodoWrite = { type: SyncOperation; todo: TodoItem };
+
+// Todos written in this tab, with the message to show once the server has
+// them. Keyed by todo, as queued writes to a todo may be merged or cancelled
+// out.
+const awaitingAck = new Map<string, string>();
+
+// Writes the changes to IndexedDB and queues them for the server
+async function persistTodoWrites(writes: TodoWrite[], ackMessage: string) {
+  const db = await getDB();
+  const tx = db.transaction('todos', 'readwrite');
+  await Promise.all([
+    ...writes.map(({ type, todo }) =>
+      type === 'delete' ? tx.store.delete(todo.id) : tx.store.put(todo)
+    ),
+    tx.done,
+  ]);
+  broadcastChange(
+    'todos',
+    writes.map(({ todo }) => todo.id)
+  );
+
+  for (const { type, todo } of writes) {
+    await addToSyncQueue(
+      type,
+      'todos',
+      type === 'delete' ? { id: todo.id, page_id: todo.page_id } : todo
+    );
+  }
+
+  if (navigator.onLine) {
+    writes.forEach(({ todo }) => awaitingAck.set(todo.id, ackMessage));
+    await processSyncQueue();
+  } else {
+    toast('Saved on this device. It will sync when you are back online.', {
+      id: 'todos-saved',
+    });
+  }
+}
+
+async function loadCachedTodos(pageId: string) {
+  const db = await getDB();
+  return db.getAllFromIndex('todos', 'by-page', pageId);
+}
+
+export const useTodoStore = create<TodosState>((set, get) => {
+  // Applies a list change optimistically, rolling it back if it can't be saved
+  const applyChange = async (
+    todos: TodoItem[],
+    writes: TodoWrite[],
+    ackMessage: string
+  ) => {
+    const previous = get();
+    set({ todos, history: [...previous.history, todos], error: null });
+
+    try {
+      await persistTodoWrites(writes, ackMessage);
+    } catch (error) {
+      console.error('Error saving todos:', error);
+      set({
+        todos: previous.todos,
+        history: previous.history,
+        error: error instanceof Error ? error.message : 'Failed to save todo',
+      });
+    }
+  };
+
+  return {
+    pageId: null,
+    todos: [],
+    history: [],
+    loading: false,
+    error: null,
+
+    fetchTodos: async (pageId) => {
+      try {
+        if (get().pageId !== pageId) {
+          set({ pageId, todos: [], history: [] });
+        }
+        set({ loading: true, error: null });
+
+        // Show the cache first, then pull what changed on the server
+        const cachedTodos = await loadCachedTodos(pageId);
+        set({ todos: cachedTodos, history: [cachedTodos] });
+
+        if (navigator.onLine) {
+          await pullChanges('todos');
+        }
+      } catch (error) {
+        console.error('Error fetching todos:', error);
+        set({
+          error:
+            error instanceof Error ? error.message : 'Failed to fetch todos',
+        });
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    createTodo: async (text) => {
+      const { pageId, todos } = get();
+      if (!pageId) return;
+
+      const now = new Date().toISOString();
+      const todo: TodoItem = {
+        id: crypto.randomUUID(),
+        text,
+        completed: false,
+        page_id: pageId,
+        content: '',
+        created_at: now,
+        updated_at: now,
+      };
+
+      await applyChange(
+        [todo, ...todos],
+        [{ type: 'create', todo }],
+        'Todo created'
+      );
+    },
+
+    updateTodo: async (todoId, changes) => {
+      const { todos } = get();
+      const todo = todos.find((t) => t.id === todoId);
+      if (!todo) return;
+
+      const updatedTodo = {
+        ...todo,
+        ...changes,
+        updated_at: new Date().toISOString(),
+      };
+
+      await applyChange(
+        todos.map((t) => (t.id === todoId ? updatedTodo : t)),
+        [{ type: 'update', todo: updatedTodo }],
+        'Changes saved'
+      );
+    },
+
+    toggleTodo: async (todoId) => {
+      const todo = get().todos.find((t) => t.id === todoId);
+      if (!todo) return;
+
+      await get().updateTodo(todoId, { completed: !todo.completed });
+    },
+
+    deleteTodo: async (todoId) => {
+      const { todos } = get();
+      const todo = todos.find((t) => t.id === todoId);
+      if (!todo) return;
+
+      await applyChange(
+        todos.filter((t) => t.id !== todoId),
+        [{ type: 'delete', todo }],
+        'Todo deleted'
+      );
+    },
+
+    // Goes back to the previous snapshot, queueing whatever writes turn the
+    // current list into it
+    undo: async () => {
+      const { todos, history } = get();
+      if (history.length <= 1) return;
+
+      const target = history[history.length - 2];
+      const current = new Map(todos.map((todo) => [todo.id, todo]));
+      const targetIds = new Set(target.map((todo) => todo.id));
+      const now = new Date().toISOString();
+
+      const writes: TodoWrite[] = todos
+        .filter((todo) => !targetIds.has(todo.id))
+        .map((todo) => ({ type: 'delete', todo }));
+      const restored = target.map((todo) => {
+        const existing = current.get(todo.id);
+        if (!existing) {
+          // Deleted since, so it is created again with the same id
+          writes.push({ type: 'create', todo });
+          return todo;
+        }
+        if (
+          existing.text === todo.text &&
+          existing.content === todo.content &&
+          existing.completed === todo.completed
+        ) {
+          return existing;
+        }
+        const reverted = { ...todo, updated_at: now };
+        writes.push({ type: 'update', todo: reverted });
+        return reverted;
+      });
+
+      set({ todos: restored, history: history.slice(0, -1), error: null });
+      if (writes.length === 0) return;
+
+      try {
+        await persistTodoWrites(writes, 'Change undone');
+      } catch (error) {
+        console.error('Error performing undo:', error);
+        set({
+          todos,
+          history,
+          error: error instanceof Error ? error.message : 'Failed to undo',
+        });
+      }
+    },
+  };
+});
+
+subscribeToSync((event) => {
+  if (event.type === 'dead-lettered' && event.item.table === 'todos') {
+    awaitingAck.delete(event.item.data.id);
+    return;
+  }
+
+  // A write that cancelled out has nothing left to wait for either
+  const settledIds =
+    event.type === 'synced' && event.table === 'todos' && event.settled
+      ? [event.row.id]
+      : event.type === 'dropped' && event.table === 'todos'
+        ? event.ids
+        : [];
+
+  for (const id of settledIds) {
+    const message = awaitingAck.get(id);
+    if (message) {
+      awaitingAck.delete(id);
+      toast.success(message, { id: 'todos-saved' });
+    }
+  }
+});
+
+// Another tab, realtime or a delta pull wrote todos, so reload the open page.
+// The newest snapshot is replaced so undo still steps back to the state
+// before the last local change.
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed' || message.store !== 'todos') return;
+
+  const { pageId } = useTodoStore.getState();
+  if (!pageId) return;
+
+  try {
+    const todos = await loadCachedTodos(pageId);
+    const { history, pageId: openPageId } = useTodoStore.getState();
+    if (openPageId !== pageId) return;
+
+    useTodoStore.setState({
+      todos,
+      history: [...history.slice(0, -1), todos],
+    });
+  } catch (error) {
+    console.error('Error reloading todos:', error);
+  }
+});
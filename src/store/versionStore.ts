@@ -0,0 +1,235 @@
+import { create } from 'zustand';
+import { Page, PageVersion, PageVersionSource } from '../types';
+import { getDB, addToSyncQueue, processSyncQueue } from '../lib/db';
+import { storage } from '../lib/storage';
+import { deleteDraft } from '../lib/storageManager';
+import { broadcastChange, subscribeToTabs } from '../lib/tabSync';
+import { usePageStore } from './pageStore';
+
+// Auto-save writes every few seconds, so it keeps at most one version per
+// interval
+const AUTOSAVE_VERSION_INTERVAL = 10 * 60 * 1000;
+
+type RecordOptions = {
+  restoredFrom?: string;
+  // Records an auto-save even within the interval
+  force?: boolean;
+};
+
+type VersionsState = {
+  pageId: string | null;
+  versions: PageVersion[]; // Newest first, content only once opened
+  loading: boolean;
+  restoring: boolean;
+  error: string | null;
+  fetchVersions: (pageId: string) => Promise<void>;
+  loadVersion: (versionId: string) => Promise<PageVersion | null>;
+  recordVersion: (
+    page: Page,
+    source: PageVersionSource,
+    options?: RecordOptions
+  ) => Promise<void>;
+  restoreVersion: (versionId: string) => Promise<void>;
+};
+
+// Only the newest version of a page keeps its content in the cache, to tell
+// whether the next snapshot changed anything. Older ones are fetched when
+// opened, so the history doesn't fill up the device.
+async function loadCachedVersions(pageId: string) {
+  const db = await getDB();
+  const versions = await db.getAllFromIndex('page_versions', 'by-page', pageId);
+  return versions.sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+// Remote listings leave content out, so keep whatever content is cached
+async function cacheVersions(versions: PageVersion[]) {
+  const db = await getDB();
+  const tx = db.transaction('page_versions', 'readwrite');
+  for (const version of versions) {
+    const cached = await tx.store.get(version.id);
+    await tx.store.put({ ...cached, ...version });
+  }
+  await tx.done;
+}
+
+const isSameContent = (a: Page['content'], b: Page['content']) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const useVersionStore = create<VersionsState>((set, get) => ({
+  pageId: null,
+  versions: [],
+  loading: false,
+  restoring: false,
+  error: null,
+
+  fetchVersions: async (pageId) => {
+    try {
+      if (get().pageId !== pageId) {
+        set({ pageId, versions: [] });
+      }
+      set({ loading: true, error: null });
+
+      // Show the cache first, then add what the server has
+      set({ versions: await loadCachedVersions(pageId) });
+
+      if (navigator.onLine) {
+        await cacheVersions(await storage.versions.listForPage(pageId));
+        if (get().pageId === pageId) {
+          set({ versions: await loadCachedVersions(pageId) });
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching versions:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to fetch versions',
+      });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  // Fetches the version's content if it isn't cached yet. Versions that
+  // haven't reached the server still have theirs in the sync queue.
+  loadVersion: async (versionId) => {
+    const db = await getDB();
+    const cached = await db.get('page_versions', versionId);
+    if (cached && cached.content !== undefined) return cached;
+
+    const queued = (await db.getAll('syncQueue')).find(
+      (item) => item.table === 'page_versions' && item.data?.id === versionId
+    );
+    if (queued) return queued.data as PageVersion;
+
+    if (!navigator.onLine) {
+      throw new Error('This version can only be viewed while online');
+    }
+    const version = await storage.versions.get(versionId);
+    if (!version) return null;
+
+    set({
+      versions: get().versions.map((v) => (v.id === versionId ? version : v)),
+    });
+    return version;
+  },
+
+  // Snapshots the page's content. Nothing is recorded when it matches the
+  // newest version, unless it is a restore.
+  recordVersion: async (page, source, options = {}) => {
+    try {
+      if (page.content === undefined) return;
+
+      const [latest] = await loadCachedVersions(page.id);
+      if (latest && source !== 'restore') {
+        if (
+          latest.content !== undefined &&
+          isSameContent(latest.content, page.content)
+        ) {
+          return;
+        }
+        if (
+          source === 'autosave' &&
+          !options.force &&
+          Date.now() - new Date(latest.created_at).getTime() <
+            AUTOSAVE_VERSION_INTERVAL
+        ) {
+          return;
+        }
+      }
+
+      const version: PageVersion = {
+        id: crypto.randomUUID(),
+        page_id: page.id,
+        user_id: page.user_id,
+        title: page.title,
+        content: page.content,
+        source,
+        restored_from: options.restoredFrom ?? null,
+        created_at: new Date().toISOString(),
+      };
+
+      const db = await getDB();
+      const tx = db.transaction('page_versions', 'readwrite');
+      await Promise.all([
+        tx.store.put(version),
+        ...(latest?.content !== undefined
+          ? [tx.store.put({ ...latest, content: undefined })]
+          : []),
+        tx.done,
+      ]);
+      broadcastChange(
+        'page_versions',
+        latest ? [version.id, latest.id] : [version.id]
+      );
+      if (get().pageId === page.id) {
+        set({ versions: [version, ...get().versions] });
+      }
+
+      await addToSyncQueue('create', 'page_versions', version);
+      if (navigator.onLine) {
+        await processSyncQueue();
+      }
+    } catch (error) {
+      // Losing a snapshot shouldn't fail the save it was taken for
+      console.error('Error recording version:', error);
+    }
+  },
+
+  // The current content is kept as a version first, so a restore can itself
+  // be undone from the history
+  restoreVersion: async (versionId) => {
+    try {
+      set({ restoring: true, error: null });
+
+      const version = await get().loadVersion(versionId);
+      if (!version) throw new Error('Version not found');
+
+      const { currentPage, updatePage } = usePageStore.getState();
+      if (currentPage?.id !== version.page_id) {
+        throw new Error('Open the page to restore one of its versions');
+      }
+
+      await get().recordVersion(currentPage, 'autosave', { force: true });
+
+      // An unsaved draft would otherwise be applied over the restored content
+      await deleteDraft(currentPage.id);
+      await updatePage(currentPage.id, { content: version.content });
+
+      const restoredPage = usePageStore.getState().currentPage;
+      if (restoredPage?.id === version.page_id) {
+        await get().recordVersion(restoredPage, 'restore', {
+          restoredFrom: version.id,
+        });
+      }
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to restore version',
+      });
+      throw error;
+    } finally {
+      set({ restoring: false });
+    }
+  },
+}));
+
+// Another tab recorded a version, so reload the open history
+subscribeToTabs(async (message) => {
+  if (message.type !== 'changed' || message.store !== 'page_versions') return;
+
+  const { pageId } = useVersionStore.getState();
+  if (!pageId) return;
+
+  try {
+    const versions = await loadCachedVersions(pageId);
+    if (useVersionStore.getState().pageId === pageId) {
+      useVersionStore.setState({ versions });
+    }
+  } catch (error) {
+    console.error('Error reloading versions:', error);
+  }
+});
@@ -0,0 +1,75 @@
+/// <reference lib="webworker" />
+import { cleanupOutdatedCaches, precacheAndRoute } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+import { CacheFirst, NetworkFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { SYNC_TAG, getDB, replaySyncQueue } from './lib/db';
+import { storage } from './lib/storage';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// Background Sync events aren't in TypeScript's lib yet
+type BackgroundSyncEvent = ExtendableEvent & { tag: string };
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+registerRoute(
+  /^https:\/\/fonts\.googleapis\.com\/.*/i,
+  new CacheFirst({
+    cacheName: 'google-fonts-cache',
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: 10,
+        maxAgeSeconds: 60 * 60 * 24 * 365,
+      }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+registerRoute(
+  /^https:\/\/rhgwpinffyzatcjiflax\.supabase\.co\/.*/i,
+  new NetworkFirst({
+    cacheName: 'api-cache',
+    networkTimeoutSeconds: 10,
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: 100,
+        maxAgeSeconds: 60 * 60 * 24,
+      }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+// Lets the app activate a waiting update
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+async function replayInBackground() {
+  // Without a valid session the backend would reject every write and each one
+  // would count as a failed attempt. Leave them for the app, which can refresh
+  // the session.
+  if (!(await storage.auth.canSyncInBackground())) return;
+
+  await replaySyncQueue();
+
+  // Rejecting asks the browser to fire the sync again later
+  const db = await getDB();
+  const remaining = await db.getAll('syncQueue');
+  if (remaining.some((item) => !item.conflict)) {
+    throw new Error('Some queued writes have not reached the server yet');
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as BackgroundSyncEvent;
+  if (syncEvent.tag === SYNC_TAG) {
+    syncEvent.waitUntil(replayInBackground());
+  }
+});
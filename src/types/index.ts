@@ -5,17 +5,20 @@ export type User = {
   avatar_url?: string;
 };
 
-export type PageType = 'note' | 'todo';
+export type PageType = 'note' | 'todo' | 'journal';
 
 export type Page = {
   id: string;
   title: string;
-  content: any; // EditorJS data
+  content?: any; // EditorJS data, left out of page listings until opened
   type: PageType;
   created_at: string;
   updated_at: string;
   parent_id: string | null;
   is_pinned: boolean;
+  deleted_at?: string | null; // Set while the page is in the trash
+  position?: string | null; // Fractional order key among its siblings
+  journal_date?: string | null; // yyyy-MM-dd, set on journal pages only
   user_id: string;
 };
 
@@ -35,3 +38,33 @@ export type PageLink = {
   target_page_id: string;
   created_at: string;
 };
+
+// A page as saved in a template, with its todos and sub-pages
+export type TemplatePage = {
+  title: string;
+  type: PageType;
+  content: Page['content'];
+  todos: Pick<TodoItem, 'text' | 'content'>[];
+  children: TemplatePage[];
+};
+
+export type PageTemplate = {
+  id: string;
+  user_id: string;
+  name: string;
+  page: TemplatePage;
+  created_at: string;
+};
+
+export type PageVersionSource = 'manual' | 'autosave' | 'restore';
+
+export type PageVersion = {
+  id: string;
+  page_id: string;
+  user_id: string;
+  title: string;
+  content?: Page['content']; // Left out of version listings until opened
+  source: PageVersionSource;
+  restored_from?: string | null; // Version a restore copied its content from
+  created_at: string;
+};
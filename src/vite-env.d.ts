@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_STORAGE_BACKEND?: 'supabase' | 'local' | 'memory';
+}
+
+// The package ships types, but its exports don't point to them
+declare module '@editorjs/embed' {
+  type EmbedService = {
+    regex: RegExp;
+    embedUrl: string;
+    id?: (groups: string[]) => string;
+    width?: number;
+    height?: number;
+  };
+
+  const Embed: import('@editorjs/editorjs').BlockToolConstructable & {
+    // Filled in with the configured services once the editor has loaded
+    services: Record<string, EmbedService>;
+  };
+  export default Embed;
+}
@@ -0,0 +1,13 @@
+/*
+  # Stream page, todo and link changes over Realtime
+
+  1. Changes
+    - Add `pages`, `todo_items` and `page_links` to the `supabase_realtime`
+      publication so open clients receive inserts, updates and deletes
+
+  2. Security
+    - Realtime delivers only rows the subscriber can select, so the existing
+      RLS policies keep each user to their own data
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE pages, todo_items, page_links;
@@ -0,0 +1,91 @@
+/*
+  # Incremental sync support
+
+  1. New Tables
+    - `deleted_records`
+      - `id` (uuid, primary key)
+      - `table_name` (text)
+      - `record_id` (uuid)
+      - `user_id` (uuid, references auth.users)
+      - `deleted_at` (timestamp)
+
+  2. Changes
+    - `updated_at` on `pages` and `todo_items` is stamped by the server on
+      insert as well as on update, so rows written offline are still newer
+      than any checkpoint a client took before they arrived
+    - Deleting a page or todo item leaves a tombstone in `deleted_records`
+    - Indexes for listing rows changed after a checkpoint
+
+  3. Security
+    - Enable RLS on `deleted_records`
+    - Users can only read their own tombstones; rows are written by triggers
+*/
+
+-- Create deleted_records table
+CREATE TABLE IF NOT EXISTS deleted_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  deleted_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS deleted_records_user_deleted_at_idx
+  ON deleted_records (user_id, table_name, deleted_at);
+
+CREATE INDEX IF NOT EXISTS pages_user_updated_at_idx
+  ON pages (user_id, updated_at);
+
+CREATE INDEX IF NOT EXISTS todo_items_updated_at_idx
+  ON todo_items (updated_at);
+
+ALTER TABLE deleted_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own deleted records"
+  ON deleted_records
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Stamp updated_at on insert too
+CREATE TRIGGER pages_inserted_at
+BEFORE INSERT ON pages
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER todo_items_inserted_at
+BEFORE INSERT ON todo_items
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Record a tombstone for every deleted row
+CREATE OR REPLACE FUNCTION record_deletion()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'pages' THEN
+    owner_id := OLD.user_id;
+  ELSE
+    -- Todos removed along with their page are no longer joined to it here;
+    -- clients drop them together with the page's own tombstone
+    SELECT user_id INTO owner_id FROM pages WHERE id = OLD.page_id;
+  END IF;
+
+  IF owner_id IS NOT NULL THEN
+    INSERT INTO deleted_records (table_name, record_id, user_id)
+    VALUES (TG_TABLE_NAME, OLD.id, owner_id);
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER pages_deleted
+AFTER DELETE ON pages
+FOR EACH ROW
+EXECUTE FUNCTION record_deletion();
+
+CREATE TRIGGER todo_items_deleted
+AFTER DELETE ON todo_items
+FOR EACH ROW
+EXECUTE FUNCTION record_deletion();
@@ -0,0 +1,20 @@
+/*
+  # Trash for pages
+
+  1. Changes
+    - `pages.deleted_at` (timestamp, nullable): set when a page is moved to the
+      trash, cleared when it is restored. Trashed pages keep their todos and
+      links until they are deleted for good.
+    - Index for listing a user's trashed pages
+
+  2. Notes
+    - Clients purge pages that have been in the trash longer than the user's
+      `trash_retention_days` preference by deleting them, which leaves the
+      usual tombstone in `deleted_records`
+*/
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS pages_user_deleted_at_idx
+  ON pages (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,15 @@
+/*
+  # Manual page order
+
+  1. Changes
+    - `pages.position` (text, nullable): fractional order key among pages with
+      the same parent. Keys are compared byte by byte, hence the "C"
+      collation.
+
+  2. Notes
+    - Existing pages have no position and are listed after ordered ones,
+      oldest first. Clients give a sibling list positions the first time one
+      of its pages is moved.
+*/
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS position text COLLATE "C";
@@ -0,0 +1,53 @@
+/*
+  # Page version history
+
+  1. New Tables
+    - `page_versions`
+      - `id` (uuid, primary key, generated on the client so it can be queued
+        offline)
+      - `page_id` (uuid, references pages, deleted with the page)
+      - `user_id` (uuid, references auth.users)
+      - `title` (text): page title when the snapshot was taken
+      - `content` (jsonb): EditorJS content snapshot
+      - `source` (text): `manual`, `autosave` or `restore`
+      - `restored_from` (uuid, nullable): version a restore copied
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `page_versions`
+    - Users can read and add versions of their own pages. Versions are never
+      edited; they go when their page is deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS page_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id uuid REFERENCES pages(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  content jsonb,
+  source text NOT NULL CHECK (source IN ('manual', 'autosave', 'restore')),
+  restored_from uuid REFERENCES page_versions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS page_versions_page_created_idx
+  ON page_versions (page_id, created_at DESC);
+
+ALTER TABLE page_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of their pages"
+  ON page_versions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add versions of their pages"
+  ON page_versions
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM pages
+      WHERE pages.id = page_versions.page_id
+      AND pages.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,47 @@
+/*
+  # Page templates
+
+  1. New Tables
+    - `page_templates`
+      - `id` (uuid, primary key, generated on the client so it can be queued
+        offline)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text)
+      - `page` (jsonb): the page tree the template creates, with the title,
+        type, content and todos of each page and its sub-pages. Strings may
+        contain {{variables}} that are filled in when a page is created.
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `page_templates`
+    - Users can read, add and delete their own templates. Templates are
+      replaced rather than edited.
+*/
+
+CREATE TABLE IF NOT EXISTS page_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  page jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS page_templates_user_idx
+  ON page_templates (user_id, created_at DESC);
+
+ALTER TABLE page_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own templates"
+  ON page_templates
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own templates"
+  ON page_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON page_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
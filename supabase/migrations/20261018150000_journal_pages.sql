@@ -0,0 +1,29 @@
+/*
+  # Journal pages
+
+  1. Changes
+    - `pages.type` also allows 'journal'
+    - `pages.journal_date` (date, nullable): the day a journal page is for.
+      Set on journal pages and only on them.
+    - Unique index on (user_id, journal_date): one journal page per day
+
+  2. Notes
+    - Clients derive a journal page's id from the user and the day, so two
+      devices that create the same day's journal offline create the same row.
+      The second insert is a duplicate and is dropped.
+    - Unfinished todos carried over from an earlier journal get ids derived
+      the same way
+*/
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS pages_type_check;
+ALTER TABLE pages ADD CONSTRAINT pages_type_check
+  CHECK (type IN ('note', 'todo', 'journal'));
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS journal_date date;
+
+ALTER TABLE pages ADD CONSTRAINT pages_journal_date_check
+  CHECK ((type = 'journal') = (journal_date IS NOT NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS pages_user_journal_date_idx
+  ON pages (user_id, journal_date)
+  WHERE journal_date IS NOT NULL;